@@ -28,10 +28,14 @@ const parentDir = join(__dirname, '..', '..');
 let ServerPDFGenerator: any;
 let usePuppeteer = false;
 
+// Page-level PDF tools (merge, split, ...) are exported by both entry points
+let pdfTools: any;
+
 try {
   // Try to load the Node.js adapter with Puppeteer support
   const nodeModule = await import(join(parentDir, 'dist', 'node.js'));
   ServerPDFGenerator = nodeModule.ServerPDFGenerator;
+  pdfTools = nodeModule;
   usePuppeteer = true;
   console.error('[MCP] Using Puppeteer for server-side rendering (recommended)');
 } catch (error) {
@@ -52,6 +56,7 @@ if (!usePuppeteer) {
     PDFGenerator = coreModule.PDFGenerator;
     generatePDFBlob = coreModule.generatePDFBlob;
     generateBatchPDF = coreModule.generateBatchPDF;
+    pdfTools = coreModule;
 
     // Import JSDOM for fallback
     const jsdomModule = await import('jsdom');
@@ -109,6 +114,14 @@ class PDFMCPServer {
             return await this.handleGenerateBatchPDF(args);
           case 'generate_pdf_from_url':
             return await this.handleGeneratePDFFromURL(args);
+          case 'merge_pdfs':
+          case 'split_pdf':
+          case 'extract_pages':
+          case 'reorder_pages':
+          case 'rotate_pages':
+          case 'delete_pages':
+          case 'insert_blank_pages':
+            return await this.handlePDFTool(name, args);
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -315,6 +328,117 @@ class PDFMCPServer {
           required: ['url', 'outputPath'],
         },
       },
+      {
+        name: 'merge_pdfs',
+        description: 'Merge existing PDF files into one, in order. Keeps the first file\'s metadata and every file\'s bookmarks.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPaths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Absolute paths of the PDFs to merge, in order',
+            },
+            outputPath: { type: 'string', description: 'Absolute file path for the merged PDF' },
+          },
+          required: ['inputPaths', 'outputPath'],
+        },
+      },
+      {
+        name: 'split_pdf',
+        description: 'Split a PDF into several files, one per page range (or one per page when no ranges are given).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPath: { type: 'string', description: 'Absolute path of the PDF to split' },
+            ranges: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'One page range per output file, e.g. ["1-3", "4, 6", "7-"]',
+            },
+            outputPattern: {
+              type: 'string',
+              description: 'Absolute output path containing {n} for the part number (1-based), e.g. "/tmp/part-{n}.pdf"',
+            },
+          },
+          required: ['inputPath', 'outputPattern'],
+        },
+      },
+      {
+        name: 'extract_pages',
+        description: 'Copy selected pages of a PDF into a new file, in the order given.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPath: { type: 'string', description: 'Absolute path of the source PDF' },
+            pages: { type: 'string', description: 'Pages to extract, e.g. "1-3, 5, 8-" (1-based)' },
+            outputPath: { type: 'string', description: 'Absolute file path for the new PDF' },
+          },
+          required: ['inputPath', 'pages', 'outputPath'],
+        },
+      },
+      {
+        name: 'reorder_pages',
+        description: 'Put the pages of a PDF in a new order. Bookmarks and links keep their targets.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPath: { type: 'string', description: 'Absolute path of the source PDF' },
+            order: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Every page number exactly once, in the new order (1-based)',
+            },
+            outputPath: { type: 'string', description: 'Absolute file path for the reordered PDF' },
+          },
+          required: ['inputPath', 'order', 'outputPath'],
+        },
+      },
+      {
+        name: 'rotate_pages',
+        description: 'Rotate pages of a PDF clockwise, adding to their current rotation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPath: { type: 'string', description: 'Absolute path of the source PDF' },
+            angle: { type: 'number', enum: [90, 180, 270, -90], description: 'Clockwise rotation in degrees' },
+            pages: { type: 'string', description: 'Pages to rotate, e.g. "2-4" (default: all pages)' },
+            outputPath: { type: 'string', description: 'Absolute file path for the rotated PDF' },
+          },
+          required: ['inputPath', 'angle', 'outputPath'],
+        },
+      },
+      {
+        name: 'delete_pages',
+        description: 'Remove pages from a PDF. Bookmarks pointing to removed pages are dropped.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPath: { type: 'string', description: 'Absolute path of the source PDF' },
+            pages: { type: 'string', description: 'Pages to remove, e.g. "2, 5-6" (1-based)' },
+            outputPath: { type: 'string', description: 'Absolute file path for the new PDF' },
+          },
+          required: ['inputPath', 'pages', 'outputPath'],
+        },
+      },
+      {
+        name: 'insert_blank_pages',
+        description: 'Insert blank pages into a PDF after the given pages.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            inputPath: { type: 'string', description: 'Absolute path of the source PDF' },
+            after: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Page numbers to insert after; 0 inserts before the first page',
+            },
+            count: { type: 'number', description: 'Blank pages per position (default: 1)' },
+            outputPath: { type: 'string', description: 'Absolute file path for the new PDF' },
+          },
+          required: ['inputPath', 'after', 'outputPath'],
+        },
+      },
     ];
   }
 
@@ -532,6 +656,87 @@ class PDFMCPServer {
     }
   }
 
+  /**
+   * Handle the page-level PDF tools (merge, split, extract, reorder, rotate, delete, insert)
+   */
+  private async handlePDFTool(name: string, args: any): Promise<any> {
+    const { inputPath, inputPaths, outputPath, outputPattern } = args;
+    const requireString = (value: unknown, parameter: string) => {
+      if (!value || typeof value !== 'string') {
+        throw new Error(`${parameter} parameter is required and must be a string`);
+      }
+    };
+
+    if (name === 'merge_pdfs') {
+      if (!Array.isArray(inputPaths) || inputPaths.length === 0) {
+        throw new Error('inputPaths parameter is required and must be a non-empty array');
+      }
+    } else {
+      requireString(inputPath, 'inputPath');
+    }
+    requireString(name === 'split_pdf' ? outputPattern : outputPath, name === 'split_pdf' ? 'outputPattern' : 'outputPath');
+
+    try {
+      const startTime = Date.now();
+      const input = name === 'merge_pdfs' ? null : readFileSync(inputPath);
+      let outputs: Array<{ path: string; bytes: Uint8Array }>;
+
+      switch (name) {
+        case 'merge_pdfs':
+          outputs = [{
+            path: outputPath,
+            bytes: await pdfTools.mergePDFs(inputPaths.map((path: string) => readFileSync(path))),
+          }];
+          break;
+        case 'split_pdf': {
+          if (!outputPattern.includes('{n}')) {
+            throw new Error('outputPattern must contain {n}');
+          }
+          const parts: Uint8Array[] = await pdfTools.splitPDF(input, args.ranges);
+          outputs = parts.map((bytes, i) => ({ path: outputPattern.replace('{n}', String(i + 1)), bytes }));
+          break;
+        }
+        case 'extract_pages':
+          outputs = [{ path: outputPath, bytes: await pdfTools.extractPages(input, args.pages) }];
+          break;
+        case 'reorder_pages':
+          outputs = [{ path: outputPath, bytes: await pdfTools.reorderPages(input, args.order) }];
+          break;
+        case 'rotate_pages':
+          outputs = [{ path: outputPath, bytes: await pdfTools.rotatePages(input, args.angle, args.pages) }];
+          break;
+        case 'delete_pages':
+          outputs = [{ path: outputPath, bytes: await pdfTools.deletePages(input, args.pages) }];
+          break;
+        default:
+          outputs = [{
+            path: outputPath,
+            bytes: await pdfTools.insertBlankPages(input, args.after, { count: args.count }),
+          }];
+      }
+
+      outputs.forEach(({ path, bytes }) => writeFileSync(path, bytes));
+
+      const generationTime = Date.now() - startTime;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: `${name} completed successfully`,
+              files: outputs.map(({ path }) => ({ filePath: path, fileSize: statSync(path).size })),
+              generationTime: `${generationTime}ms`,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Setup error handling
    */
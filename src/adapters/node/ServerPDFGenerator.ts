@@ -7,7 +7,10 @@ import type {
   PDFGeneratorOptions,
   PDFGenerationResult,
   BatchPDFGenerationResult,
+  PDFAPreflightReport,
 } from '../../types';
+import { needsPostProcessing, postProcessPDF } from '../../pdf-post-processor';
+import { getPDFPageCount } from '../../pdf-tools';
 
 /**
  * Server-side PDF generator using Puppeteer
@@ -84,8 +87,10 @@ export class ServerPDFGenerator {
         await page.emulateMediaType('print');
       }
 
+      await this.applyDocumentLanguage(page);
+
       // Generate PDF using Puppeteer's native PDF generation
-      const pdfBuffer = await page.pdf({
+      const { buffer: pdfBuffer, preflight, sheetCount } = await this.postProcess(await page.pdf({
         format: this.getFormat(),
         printBackground: true,
         margin: this.getMargins(),
@@ -93,7 +98,8 @@ export class ServerPDFGenerator {
         headerTemplate: this.getHeaderTemplate(),
         footerTemplate: this.getFooterTemplate(),
         preferCSSPageSize: false,
-      });
+        tagged: this.isTagged(),
+      }));
 
       const generationTime = performance.now() - startTime;
 
@@ -104,10 +110,11 @@ export class ServerPDFGenerator {
       }
 
       return {
-        pageCount: await this.getPageCount(pdfBuffer),
+        pageCount: await this.getPageCount(pdfBuffer, sheetCount),
         fileSize: pdfBuffer.length,
         generationTime: Math.round(generationTime),
-        blob: new Blob([pdfBuffer], { type: 'application/pdf' }),
+        blob: new Blob([pdfBuffer as any], { type: 'application/pdf' }),
+        ...(preflight && { preflight }),
       };
     } finally {
       await page.close();
@@ -168,11 +175,14 @@ export class ServerPDFGenerator {
         await page.emulateMediaType('print');
       }
 
-      const pdfBuffer = await page.pdf({
+      await this.applyDocumentLanguage(page);
+
+      const { buffer: pdfBuffer, preflight, sheetCount } = await this.postProcess(await page.pdf({
         format: this.getFormat(),
         printBackground: true,
         margin: this.getMargins(),
-      });
+        tagged: this.isTagged(),
+      }));
 
       const generationTime = performance.now() - startTime;
 
@@ -182,7 +192,7 @@ export class ServerPDFGenerator {
         fs.writeFileSync(filename, pdfBuffer);
       }
 
-      const totalPages = await this.getPageCount(pdfBuffer);
+      const totalPages = await this.getPageCount(pdfBuffer, sheetCount);
 
       return {
         totalPages,
@@ -195,7 +205,8 @@ export class ServerPDFGenerator {
           endPage: index + 1,
           scaleFactor: 1.0,
         })),
-        blob: new Blob([pdfBuffer], { type: 'application/pdf' }),
+        blob: new Blob([pdfBuffer as any], { type: 'application/pdf' }),
+        ...(preflight && { preflight }),
       };
     } finally {
       await page.close();
@@ -253,11 +264,14 @@ export class ServerPDFGenerator {
         await page.emulateMediaType('print');
       }
 
-      const pdfBuffer = await page.pdf({
+      await this.applyDocumentLanguage(page);
+
+      const { buffer: pdfBuffer, preflight, sheetCount } = await this.postProcess(await page.pdf({
         format: this.getFormat(),
         printBackground: true,
         margin: this.getMargins(),
-      });
+        tagged: this.isTagged(),
+      }));
 
       const generationTime = performance.now() - startTime;
 
@@ -268,10 +282,11 @@ export class ServerPDFGenerator {
       }
 
       return {
-        pageCount: await this.getPageCount(pdfBuffer),
+        pageCount: await this.getPageCount(pdfBuffer, sheetCount),
         fileSize: pdfBuffer.length,
         generationTime: Math.round(generationTime),
-        blob: new Blob([pdfBuffer], { type: 'application/pdf' }),
+        blob: new Blob([pdfBuffer as any], { type: 'application/pdf' }),
+        ...(preflight && { preflight }),
       };
     } finally {
       await page.close();
@@ -313,6 +328,25 @@ export class ServerPDFGenerator {
     };
   }
 
+  /**
+   * Chrome builds the structure tree from the live DOM when tagging is requested
+   */
+  private isTagged(): boolean {
+    return !!this.options.accessibilityOptions?.enabled;
+  }
+
+  /**
+   * Override the page language for tagged output (Chrome writes it as /Lang)
+   */
+  private async applyDocumentLanguage(page: any): Promise<void> {
+    const lang = this.options.accessibilityOptions?.enabled && this.options.accessibilityOptions.lang;
+    if (!lang) return;
+
+    await page.evaluate((value: string) => {
+      document.documentElement.lang = value;
+    }, lang);
+  }
+
   private hasHeaderFooter(): boolean {
     return !!(this.options.headerTemplate || this.options.footerTemplate);
   }
@@ -327,11 +361,48 @@ export class ServerPDFGenerator {
     return this.options.footerTemplate.template || '';
   }
 
-  private async getPageCount(pdfBuffer: Buffer): Promise<number> {
+  /**
+   * Apply post-processing stages (PDF/A, signing, encryption) to the PDF produced by Puppeteer
+   */
+  private async postProcess(
+    pdfBuffer: Uint8Array
+  ): Promise<{ buffer: Buffer; preflight?: PDFAPreflightReport; sheetCount?: number }> {
+    if (!needsPostProcessing(this.options)) {
+      return { buffer: Buffer.from(pdfBuffer) };
+    }
+
+    // Node 18 has no global Web Crypto, so pass the crypto module's implementation
+    const { webcrypto } = await import('crypto');
+    const { bytes, preflight, sheetCount } = await postProcessPDF(pdfBuffer, this.options, {
+      crypto: webcrypto as unknown as Crypto,
+    });
+
+    return { buffer: Buffer.from(bytes), preflight, sheetCount };
+  }
+
+  /**
+   * Page count reported in the result: the pages of the imposed file when
+   * `imposition` is set, otherwise the document pages, less the inserted ones
+   * under `insertedPageNumbering: 'skip'`
+   */
+  private async getPageCount(pdfBuffer: Buffer, sheetCount?: number): Promise<number> {
+    if (sheetCount !== undefined) return sheetCount;
+
     // Simple PDF page count by counting /Page objects
     const pdfString = pdfBuffer.toString('latin1');
     const matches = pdfString.match(/\/Type[\s]*\/Page[^s]/g);
-    return matches ? matches.length : 1;
+    const pageCount = matches ? matches.length : 1;
+
+    // Prepended and appended pages are left out when they are not counted
+    if (this.options.insertedPageNumbering !== 'skip') {
+      return pageCount;
+    }
+
+    let inserted = 0;
+    for (const input of [...(this.options.prependPDFs || []), ...(this.options.appendPDFs || [])]) {
+      inserted += await getPDFPageCount(input);
+    }
+    return pageCount - inserted;
   }
 }
 
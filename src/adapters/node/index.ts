@@ -21,6 +21,28 @@ export {
   generateServerBatchPDF,
 } from './ServerPDFGenerator';
 
+// Page-level tools for existing PDFs
+export {
+  mergePDFs,
+  splitPDF,
+  extractPages,
+  reorderPages,
+  rotatePages,
+  deletePages,
+  insertBlankPages,
+  insertPDFs,
+  getPDFPageCount,
+  parsePageSelection,
+} from '../../pdf-tools';
+export type { PDFInput, PageSelection, InsertBlankPagesOptions } from '../../pdf-tools';
+
+// N-up and booklet layouts for print runs
+export { imposePDF, getBookletOrder } from '../../imposition-handler';
+
+// PDF form templates work the same on the server
+export { fillPDFForm } from '../../form-handler';
+export type { PDFFormValue, FillPDFFormOptions, PDFFormFillReport, FillPDFFormResult } from '../../form-handler';
+
 // Re-export types for convenience
 export type {
   PDFGeneratorOptions,
@@ -35,6 +57,22 @@ export type {
   URLToPDFOptions,
   PDFSecurityOptions,
   PDFSecurityPermissions,
+  PDFSignatureOptions,
+  SignatureAppearance,
+  PDFConformance,
+  PDFAViolation,
+  PDFAPreflightReport,
+  AccessibilityOptions,
+  PDFAttachment,
+  AttachmentRelationship,
+  EInvoiceProfile,
+  EInvoiceData,
+  EInvoiceOptions,
+  StationeryOptions,
+  PrintMarksOptions,
+  ImpositionOptions,
+  ColorMode,
+  PDFTheme,
   AsyncProcessingOptions,
   PreviewOptions,
   TOCOptions,
@@ -77,6 +77,13 @@ export {
   convertOklchInStylesheets,
   extractAndConvertOklchFromStylesheets,
 } from '../../utils';
+export {
+  cssColorToRgb,
+  convertModernColorsInCSS,
+  convertModernColorsInElement,
+  convertModernColorsInStylesheets,
+  resolveCustomPropertyColors,
+} from '../../css-color';
 
 // Re-export helper functions
 export {
@@ -0,0 +1,76 @@
+/**
+ * PDF Generator Library - Attachment Handler
+ *
+ * Embedded file streams listed in the document's EmbeddedFiles name tree
+ */
+
+import type { PDFAttachment } from './types';
+
+/**
+ * Embed files into finished PDF bytes
+ *
+ * Each file becomes an embedded file stream with a file specification that is
+ * listed in the EmbeddedFiles name tree and the catalog's associated files
+ * (`/AF`). Files are written in name order, as the name tree requires.
+ */
+export async function embedAttachments(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  attachments: PDFAttachment[]
+): Promise<Uint8Array> {
+  const bytes = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  if (attachments.length === 0) return bytes;
+
+  validateAttachments(attachments);
+
+  const { PDFDocument, AFRelationship } = await import('pdf-lib');
+  const doc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const sorted = [...attachments].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  for (const attachment of sorted) {
+    const data = await readAttachmentData(attachment.data);
+    const now = new Date();
+
+    await doc.attach(data, attachment.name, {
+      mimeType: attachment.mimeType || getBlobType(attachment.data) || 'application/octet-stream',
+      description: attachment.description,
+      creationDate: attachment.creationDate || now,
+      modificationDate: attachment.modificationDate || attachment.creationDate || now,
+      afRelationship: AFRelationship[attachment.afRelationship || 'Unspecified'],
+    });
+  }
+
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+/**
+ * @internal
+ */
+function validateAttachments(attachments: PDFAttachment[]): void {
+  const names = new Set<string>();
+
+  attachments.forEach(({ name }) => {
+    if (!name || !name.trim()) {
+      throw new Error('Attachment name is required');
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate attachment name: ${name}`);
+    }
+    names.add(name);
+  });
+}
+
+/**
+ * @internal
+ */
+async function readAttachmentData(data: PDFAttachment['data']): Promise<Uint8Array> {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * @internal
+ */
+function getBlobType(data: PDFAttachment['data']): string {
+  return typeof Blob !== 'undefined' && data instanceof Blob ? data.type : '';
+}
@@ -0,0 +1,127 @@
+/**
+ * PDF Generator Library - Color Mode
+ *
+ * Grayscale and high-contrast output for black-and-white printing
+ */
+
+import type { ColorMode } from './types';
+import { getGrayLevel } from './image-handler';
+import { getEffectiveBackground, parseComputedColor } from './print-handler';
+
+/** Gray levels at or above this stay paper white in high-contrast mode */
+const PAPER_WHITE = 240;
+
+/** Text and borders at or above this gray level count as near-white */
+const NEAR_WHITE = 180;
+
+/** Backgrounds at or above this gray level count as light */
+const LIGHT_BACKGROUND = 128;
+
+/**
+ * Map an RGB color for the color mode
+ *
+ * Grayscale keeps the gray level. High contrast also darkens every tone
+ * below paper white, so light grays and pastels stay visible on paper.
+ */
+export function mapColor(color: [number, number, number], mode: ColorMode): [number, number, number] {
+  if (mode === 'color') return color;
+
+  const gray = Math.round(mapGrayLevel(getGrayLevel(color[0], color[1], color[2]), mode));
+  return [gray, gray, gray];
+}
+
+/**
+ * Apply the color mode to the pixels of a canvas, in place
+ */
+export function applyColorModeToCanvas(canvas: HTMLCanvasElement, mode: ColorMode): void {
+  if (mode === 'color' || canvas.width === 0 || canvas.height === 0) return;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = mapGrayLevel(getGrayLevel(data[i], data[i + 1], data[i + 2]), mode);
+    data[i] = gray;
+    data[i + 1] = gray;
+    data[i + 2] = gray;
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Apply the color mode to an image data URL
+ *
+ * @returns A PNG data URL (the input when the mode is 'color')
+ */
+export async function applyColorModeToDataURL(dataURL: string, mode: ColorMode): Promise<string> {
+  if (mode === 'color') return dataURL;
+
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('Failed to load image for color conversion'));
+    img.src = dataURL;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  canvas.getContext('2d')?.drawImage(img, 0, 0);
+  applyColorModeToCanvas(canvas, mode);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Push near-white text and borders on light backgrounds to black
+ *
+ * On a black-and-white printer they would otherwise vanish. Light text on a
+ * dark background is left alone.
+ */
+export function applyHighContrast(root: HTMLElement): void {
+  const elements = [root, ...Array.from(root.querySelectorAll<HTMLElement>('*'))];
+
+  elements.forEach((element) => {
+    const style = window.getComputedStyle(element);
+    if (!isLight(getEffectiveBackground(element))) return;
+
+    if (isNearWhite(style.color)) {
+      element.style.setProperty('color', '#000000', 'important');
+    }
+
+    (['top', 'right', 'bottom', 'left'] as const).forEach((side) => {
+      const width = parseFloat(style.getPropertyValue(`border-${side}-width`));
+      if (width > 0 && isNearWhite(style.getPropertyValue(`border-${side}-color`))) {
+        element.style.setProperty(`border-${side}-color`, '#000000', 'important');
+      }
+    });
+  });
+}
+
+/**
+ * @internal
+ */
+function mapGrayLevel(gray: number, mode: ColorMode): number {
+  if (mode !== 'highContrast') return gray;
+  if (gray >= PAPER_WHITE) return 255;
+  return 255 * Math.pow(gray / 255, 2);
+}
+
+/**
+ * @internal
+ */
+function isLight(color: [number, number, number]): boolean {
+  return getGrayLevel(color[0], color[1], color[2]) >= LIGHT_BACKGROUND;
+}
+
+/**
+ * @internal
+ */
+function isNearWhite(value: string): boolean {
+  const color = parseComputedColor(value);
+  return !!color && getGrayLevel(color[0], color[1], color[2]) >= NEAR_WHITE;
+}
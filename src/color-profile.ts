@@ -0,0 +1,168 @@
+/**
+ * PDF Generator Library - Color Profile
+ *
+ * Compact sRGB ICC profile (version 2.1, matrix/TRC display class) used as
+ * the output intent of archival PDFs
+ */
+
+/** Registry name of the sRGB output condition */
+export const SRGB_OUTPUT_CONDITION = 'sRGB IEC61966-2.1';
+
+/** D50 illuminant of the profile connection space */
+const D50: [number, number, number] = [0.9642, 1.0, 0.8249];
+
+/** sRGB primaries, chromatically adapted to D50 */
+const SRGB_COLORANTS: Record<'rXYZ' | 'gXYZ' | 'bXYZ', [number, number, number]> = {
+  rXYZ: [0.4360747, 0.2225045, 0.0139322],
+  gXYZ: [0.3850649, 0.7168786, 0.0971045],
+  bXYZ: [0.1430804, 0.0606169, 0.7141733],
+};
+
+/** Entries in the tone reproduction curve table */
+const TRC_ENTRIES = 256;
+
+let cachedProfile: Uint8Array | null = null;
+
+/**
+ * Build an sRGB ICC profile
+ *
+ * The profile is generated once and cached; callers must not modify it.
+ */
+export function createSRGBProfile(): Uint8Array {
+  if (cachedProfile) return cachedProfile;
+
+  const tags: Array<[string, Uint8Array]> = [
+    ['desc', textDescriptionTag(SRGB_OUTPUT_CONDITION)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50)],
+    ['rXYZ', xyzTag(SRGB_COLORANTS.rXYZ)],
+    ['gXYZ', xyzTag(SRGB_COLORANTS.gXYZ)],
+    ['bXYZ', xyzTag(SRGB_COLORANTS.bXYZ)],
+  ];
+  const trc = curveTag();
+  const sharedTags = ['rTRC', 'gTRC', 'bTRC'];
+
+  // Layout: header, tag table, tag data (4-byte aligned, TRC stored once)
+  const tagCount = tags.length + sharedTags.length;
+  let offset = 128 + 4 + tagCount * 12;
+  const entries: Array<[string, number, number]> = [];
+  const blocks: Array<[number, Uint8Array]> = [];
+
+  tags.forEach(([signature, data]) => {
+    entries.push([signature, offset, data.length]);
+    blocks.push([offset, data]);
+    offset = align4(offset + data.length);
+  });
+  sharedTags.forEach((signature) => entries.push([signature, offset, trc.length]));
+  blocks.push([offset, trc]);
+  offset = align4(offset + trc.length);
+
+  const profile = new Uint8Array(offset);
+  const view = new DataView(profile.buffer);
+
+  // Header
+  view.setUint32(0, offset);
+  view.setUint32(8, 0x02100000); // Version 2.1
+  writeSignature(profile, 12, 'mntr');
+  writeSignature(profile, 16, 'RGB ');
+  writeSignature(profile, 20, 'XYZ ');
+  [2024, 1, 1, 0, 0, 0].forEach((value, i) => view.setUint16(24 + i * 2, value));
+  writeSignature(profile, 36, 'acsp');
+  D50.forEach((value, i) => view.setInt32(68 + i * 4, toS15Fixed16(value)));
+
+  // Tag table
+  view.setUint32(128, tagCount);
+  entries.forEach(([signature, tagOffset, size], i) => {
+    writeSignature(profile, 132 + i * 12, signature);
+    view.setUint32(136 + i * 12, tagOffset);
+    view.setUint32(140 + i * 12, size);
+  });
+
+  blocks.forEach(([blockOffset, data]) => profile.set(data, blockOffset));
+
+  cachedProfile = profile;
+  return profile;
+}
+
+/**
+ * textDescriptionType with an ASCII description and empty Unicode/ScriptCode parts
+ * @internal
+ */
+function textDescriptionTag(text: string): Uint8Array {
+  const data = new Uint8Array(12 + text.length + 1 + 8 + 3 + 67);
+  const view = new DataView(data.buffer);
+  writeSignature(data, 0, 'desc');
+  view.setUint32(8, text.length + 1);
+  writeASCII(data, 12, text);
+  return data;
+}
+
+/**
+ * textType
+ * @internal
+ */
+function textTag(text: string): Uint8Array {
+  const data = new Uint8Array(8 + text.length + 1);
+  writeSignature(data, 0, 'text');
+  writeASCII(data, 8, text);
+  return data;
+}
+
+/**
+ * XYZType with a single value
+ * @internal
+ */
+function xyzTag(xyz: [number, number, number]): Uint8Array {
+  const data = new Uint8Array(20);
+  const view = new DataView(data.buffer);
+  writeSignature(data, 0, 'XYZ ');
+  xyz.forEach((value, i) => view.setInt32(8 + i * 4, toS15Fixed16(value)));
+  return data;
+}
+
+/**
+ * curveType sampling the sRGB transfer function
+ * @internal
+ */
+function curveTag(): Uint8Array {
+  const data = new Uint8Array(12 + TRC_ENTRIES * 2);
+  const view = new DataView(data.buffer);
+  writeSignature(data, 0, 'curv');
+  view.setUint32(8, TRC_ENTRIES);
+
+  for (let i = 0; i < TRC_ENTRIES; i++) {
+    const encoded = i / (TRC_ENTRIES - 1);
+    const linear = encoded <= 0.04045 ? encoded / 12.92 : Math.pow((encoded + 0.055) / 1.055, 2.4);
+    view.setUint16(12 + i * 2, Math.round(linear * 65535));
+  }
+
+  return data;
+}
+
+/**
+ * @internal
+ */
+function writeSignature(target: Uint8Array, offset: number, signature: string): void {
+  writeASCII(target, offset, signature.padEnd(4, ' ').substring(0, 4));
+}
+
+/**
+ * @internal
+ */
+function writeASCII(target: Uint8Array, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) target[offset + i] = text.charCodeAt(i) & 0x7f;
+}
+
+/**
+ * @internal
+ */
+function toS15Fixed16(value: number): number {
+  return Math.round(value * 65536);
+}
+
+/**
+ * @internal
+ */
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
@@ -13,6 +13,9 @@ import type {
   PDFRenderContext,
   PDFContentItem,
   BatchPDFGenerationResult,
+  PageSlicePlacement,
+  FontLoadFailure,
+  PDFAPreflightReport,
 } from './types';
 import {
   DEFAULT_OPTIONS,
@@ -20,16 +23,172 @@ import {
   generateColorReplacementCSS,
   createStyleElement,
   sanitizeFilename,
+  downloadBlob,
   TAILWIND_COLOR_REPLACEMENTS,
   htmlStringToElement,
   loadExternalStyles,
+  extractHeadings,
+  buildTOCHierarchy,
+  generateTOCHTML,
+  generateTOCCSS,
+  buildBookmarkHierarchy,
 } from './utils';
 import {
   processImagesForPDF,
   processBackgroundImages,
 } from './image-handler';
 import { processTablesForPDF, optimizeTableForPDF } from './table-handler';
-import { applyPageBreakHints } from './page-break-handler';
+import {
+  applyPageBreakHints,
+  calculateSafeBreakPositions,
+  getPageNumberForOffset,
+} from './page-break-handler';
+import { extractTextRuns, addTextLayerToPage, registerTextLayerFont } from './text-layer';
+import type { TextRun } from './text-layer';
+import {
+  extractLinkAreas,
+  addLinksToPage,
+  extractInternalLinks,
+  collectDestinationsOnPage,
+  collectInternalLinksOnPage,
+  addInternalLinks,
+} from './link-handler';
+import { mergeBookmarkEntries, addOutlineToPDF, shiftBookmarkPages } from './outline-handler';
+import { injectFontFaces, loadFonts, applyFontFallback } from './font-handler';
+import { needsPostProcessing, postProcessPDF } from './pdf-post-processor';
+import { getPDFPageCount, mergePDFs } from './pdf-tools';
+import {
+  mapColor,
+  applyColorModeToCanvas,
+  applyColorModeToDataURL,
+  applyHighContrast,
+} from './color-mode';
+import {
+  convertModernColorsInCSS,
+  convertModernColorsInElement,
+  convertModernColorsInStylesheets,
+} from './css-color';
+import { forceLightColorScheme, applyLightTheme } from './theme-handler';
+import {
+  resolvePrintMarks,
+  fillBleed,
+  drawPrintMarks,
+  extendIntoBleed,
+  parseComputedColor,
+  setPrintBoxes,
+} from './print-handler';
+import {
+  extractStructureTree,
+  getDocumentLanguage,
+  beginMarkedContent,
+  beginArtifact,
+  endMarkedContent,
+  addFiguresToPage,
+  writeStructureTree,
+} from './structure-handler';
+import type { StructureTree } from './structure-handler';
+import {
+  hideFormControls,
+  extractFormFields,
+  placeFormFieldsOnPage,
+  addFormFieldsToPDF,
+} from './form-handler';
+import type { FormFieldArea, PlacedFormField } from './form-handler';
+import type {
+  LinkArea,
+  InternalLinkArea,
+  AnchorTarget,
+  LinkDestination,
+  PendingInternalLink,
+} from './link-handler';
+
+/** Resolution of text painted as an image for PDF/A output */
+const TEXT_RASTER_DPI = 300;
+
+/**
+ * Layout measured from the prepared clone, shared by every page
+ */
+interface PageLayout {
+  /** Millimetres per CSS pixel of the rendered element */
+  mmPerPx: number;
+
+  /** Text runs for the invisible text layer */
+  textRuns: TextRun[];
+
+  /** External link areas to annotate */
+  links: LinkArea[];
+
+  /** Fragment link areas that jump inside the document */
+  internalLinks: InternalLinkArea[];
+
+  /** Elements referenced by fragment links */
+  anchorTargets: AnchorTarget[];
+
+  /** Target destinations, filled in as pages are laid out */
+  destinations: Map<string, LinkDestination>;
+
+  /** Internal link annotations waiting for their destinations */
+  pendingLinks: PendingInternalLink[];
+
+  /** Headings that become outline entries (resolved through `destinations`) */
+  bookmarkHeadings: Array<{ title: string; level: number; id: string }>;
+
+  /** Structure tree for tagged output (null when accessibility is off) */
+  structure: StructureTree | null;
+
+  /** Form controls that become AcroForm fields */
+  formFields: FormFieldArea[];
+
+  /** Background color carried into the bleed (null without bleed or background) */
+  bleedColor: [number, number, number] | null;
+}
+
+/**
+ * Count the pages of the PDFs placed before and after the generated pages
+ * @internal
+ */
+async function countInsertedPages(
+  options: Partial<PDFGeneratorOptions>
+): Promise<{ before: number; after: number }> {
+  const count = async (inputs: Array<Blob | ArrayBuffer | Uint8Array> = []): Promise<number> => {
+    let total = 0;
+    for (const input of inputs) {
+      total += await getPDFPageCount(input);
+    }
+    return total;
+  };
+
+  return { before: await count(options.prependPDFs), after: await count(options.appendPDFs) };
+}
+
+/**
+ * Find the copy of a page element in a document html2canvas cloned
+ *
+ * The element is located by its position among its siblings, counting only
+ * the children html2canvas copies (no scripts, no ignored elements) and not
+ * the pseudo-element stand-ins it inserts.
+ * @internal
+ */
+function findClonedElement(element: HTMLElement, clonedDoc: Document): HTMLElement | null {
+  const isCopied = (child: Element) =>
+    child.tagName !== 'SCRIPT' &&
+    child.tagName !== 'HTML2CANVASPSEUDOELEMENT' &&
+    !child.hasAttribute('data-html2canvas-ignore');
+
+  const path: number[] = [];
+  for (let current: Element = element; current.parentElement; current = current.parentElement) {
+    path.unshift(Array.from(current.parentElement.children).filter(isCopied).indexOf(current));
+  }
+
+  let cloned: Element | undefined = clonedDoc.documentElement;
+  for (const index of path) {
+    cloned = cloned && Array.from(cloned.children).filter(isCopied)[index];
+  }
+
+  return cloned instanceof clonedDoc.defaultView!.HTMLElement && cloned.tagName === element.tagName
+    ? cloned
+    : null;
+}
 
 /**
  * Main PDF Generator Class
@@ -38,6 +197,15 @@ export class PDFGenerator {
   private options: Required<PDFGeneratorOptions>;
   private pageConfig: PDFPageConfig;
   private styleElement: HTMLStyleElement | null = null;
+  private restoreStylesheetColors: (() => void) | null = null;
+  private sourceElement: HTMLElement | null = null;
+  private themedBleedColor: [number, number, number] | null = null;
+  private fontFailures: FontLoadFailure[] = [];
+  private preflight: PDFAPreflightReport | undefined;
+  private sheetCount: number | undefined;
+  private placedFormFields: PlacedFormField[] = [];
+  private unencodableText: string[] = [];
+  private insertedPages = { before: 0, after: 0 };
 
   // Preview-related properties
   private previewContainer: HTMLElement | null = null;
@@ -78,22 +246,23 @@ export class PDFGenerator {
       const preparedElement = await this.prepareElement(element);
       this.options.onProgress(10);
 
-      // Step 2: Create canvas from HTML
-      const canvas = await this.renderToCanvas(preparedElement);
-      this.options.onProgress(40);
+      // Step 2: Insert table of contents, then compute break-aware cut positions
+      this.insertTableOfContents(preparedElement);
+      const pageBreaks = this.calculatePageBreaks(preparedElement);
 
-      // Step 3: Generate PDF with pagination
-      const pdf = await this.createPDFFromCanvas(canvas);
+      // Step 3: Rasterize and paginate
+      const pdf = await this.renderPDF(preparedElement, pageBreaks);
       this.options.onProgress(80);
 
       // Step 4: Generate blob and download
-      const blob = pdf.output('blob');
-      const pageCount = pdf.internal.pages.length - 1; // jsPDF counts empty first page
+      const blob = await this.outputBlob(pdf);
+      // Imposed output counts its sheets; jsPDF counts an empty first page
+      const pageCount = this.sheetCount ?? this.displayedPage(0, pdf.internal.pages.length - 1).totalPages;
 
       this.options.onProgress(90);
 
       // Step 5: Download file
-      pdf.save(sanitizeFilename(filename, 'pdf'));
+      downloadBlob(blob, sanitizeFilename(filename, 'pdf'));
       this.options.onProgress(100);
 
       // Cleanup
@@ -107,6 +276,22 @@ export class PDFGenerator {
         generationTime,
       };
 
+      if (this.fontFailures.length > 0) {
+        result.fontFailures = this.fontFailures;
+      }
+
+      if (this.preflight) {
+        result.preflight = this.preflight;
+      }
+
+      if (this.unencodableText.length > 0) {
+        console.warn(
+          'Text layer lines lost characters Helvetica cannot encode (set textLayerFont):',
+          this.unencodableText
+        );
+        result.textLayerUnencodable = this.unencodableText;
+      }
+
       this.options.onComplete(blob);
       return result;
     } catch (error) {
@@ -129,13 +314,13 @@ export class PDFGenerator {
       const preparedElement = await this.prepareElement(element);
       this.options.onProgress(10);
 
-      const canvas = await this.renderToCanvas(preparedElement);
-      this.options.onProgress(40);
+      this.insertTableOfContents(preparedElement);
+      const pageBreaks = this.calculatePageBreaks(preparedElement);
 
-      const pdf = await this.createPDFFromCanvas(canvas);
+      const pdf = await this.renderPDF(preparedElement, pageBreaks);
       this.options.onProgress(80);
 
-      const blob = pdf.output('blob');
+      const blob = await this.outputBlob(pdf);
       this.options.onProgress(100);
 
       this.cleanup(preparedElement);
@@ -156,6 +341,10 @@ export class PDFGenerator {
   private async prepareElement(element: HTMLElement): Promise<HTMLElement> {
     this.options.onProgress(5);
 
+    // Page numbering and the TOC need the inserted PDFs' length before layout
+    this.insertedPages = await countInsertedPages(this.options);
+    this.sourceElement = element.isConnected ? element : null;
+
     // Create a container for offscreen rendering
     // This allows content to flow naturally to its full height
     const container = document.createElement('div');
@@ -166,7 +355,7 @@ export class PDFGenerator {
     container.style.width = `${this.pageConfig.widthPx}px`;
     container.style.padding = '0';
     container.style.margin = '0';
-    container.style.backgroundColor = '#ffffff';
+    container.style.backgroundColor = this.getCanvasBackground() ?? 'transparent';
     container.style.height = 'auto'; // Allow natural height
     container.style.overflow = 'visible'; // Don't clip content
 
@@ -182,6 +371,10 @@ export class PDFGenerator {
     container.appendChild(clone);
     document.body.appendChild(container);
 
+    // html2canvas cannot parse CSS Color 4/5 syntax; resolve it to sRGB in the
+    // page's stylesheets until cleanup
+    this.restoreStylesheetColors = convertModernColorsInStylesheets();
+
     // Inject custom CSS for color replacements
     const cssParts = [
       generateColorReplacementCSS(this.options.colorReplacements, 'pdf-render-target'),
@@ -218,13 +411,25 @@ export class PDFGenerator {
       }
     }
 
-    const css = cssParts.join('\n\n');
+    const css = convertModernColorsInCSS(cssParts.join('\n\n'));
     this.styleElement = createStyleElement(css, 'pdf-color-override');
     document.head.appendChild(this.styleElement);
 
     // Wait for styles to apply
     await new Promise((resolve) => setTimeout(resolve, 100));
 
+    // Load custom fonts before anything is measured or rasterized
+    await this.loadCustomFonts(container, clone);
+
+    // Inline styles, custom property chains, SVG colors and computed colors from
+    // unreadable stylesheets
+    convertModernColorsInElement(clone);
+
+    // Keep light text and borders visible on black-and-white printers
+    if (this.options.colorMode === 'highContrast') {
+      applyHighContrast(clone);
+    }
+
     // Process images (SVG conversion, optimization, preloading)
     this.options.onProgress(7);
     await processImagesForPDF(clone, {
@@ -250,17 +455,172 @@ export class PDFGenerator {
 
     // Apply page break hints
     this.options.onProgress(9);
+    // Headings are kept with their content rather than forced onto a new page;
+    // break-before/after set by the document's own CSS is still honored
     applyPageBreakHints(clone, {
-      preventOrphanedHeadings: true,
-      respectCSSPageBreaks: true,
+      preventOrphanedHeadings: this.options.preventOrphanedHeadings,
+      respectCSSPageBreaks: this.options.respectCSSPageBreaks,
+      breakBefore: [],
     });
 
+    // Form controls become fields; keep their space but not their pixels
+    if (this.options.formFields) {
+      hideFormControls(clone);
+    }
+
     // Final wait for all processing
     await new Promise((resolve) => setTimeout(resolve, 200));
 
     return clone;
   }
 
+  /**
+   * Inject and load the fonts from `fontOptions`, falling back for faces that fail
+   */
+  private async loadCustomFonts(container: HTMLElement, clone: HTMLElement): Promise<void> {
+    this.fontFailures = [];
+
+    const fontOptions = this.options.fontOptions;
+    if (!fontOptions?.fonts?.length) return;
+
+    injectFontFaces(container, fontOptions.fonts);
+    this.fontFailures = await loadFonts(fontOptions.fonts);
+
+    if (this.fontFailures.length > 0) {
+      console.warn(
+        'Some custom fonts failed to load:',
+        this.fontFailures.map((failure) => `${failure.family} ${failure.weight} ${failure.style}: ${failure.reason}`)
+      );
+      applyFontFallback(clone, this.fontFailures, fontOptions);
+    }
+  }
+
+  /**
+   * Calculate break-aware cut positions when smart pagination is enabled
+   */
+  private calculatePageBreaks(element: HTMLElement): number[] | undefined {
+    if (this.options.paginationMode !== 'smart') {
+      return undefined;
+    }
+
+    return calculateSafeBreakPositions(element, this.pageConfig.heightPx, {
+      preventOrphanedHeadings: this.options.preventOrphanedHeadings,
+      respectCSSPageBreaks: this.options.respectCSSPageBreaks,
+      breakBefore: [],
+    });
+  }
+
+  /**
+   * Insert a table of contents into the prepared clone (two-pass)
+   *
+   * The first pass records the page each heading lands on in the content-only
+   * layout. The TOC is then rendered at the configured position and kept on
+   * whole pages of its own, so the content keeps its pagination and heading
+   * page numbers only need shifting by the TOC's length.
+   */
+  private insertTableOfContents(element: HTMLElement): void {
+    const toc = this.options.tocOptions;
+    if (!toc || !toc.enabled) {
+      return;
+    }
+
+    const headings = extractHeadings(element, toc.levels || [1, 2, 3]);
+    if (headings.length === 0) {
+      return;
+    }
+
+    const position = toc.position || 'start';
+    const pageHeight = this.pageConfig.heightPx;
+    const smart = this.options.paginationMode === 'smart';
+
+    // Pass 1: lay out the content alone and record where each heading lands
+    const origin = element.getBoundingClientRect().top;
+    const contentBreaks = this.calculatePageBreaks(element);
+    const headingPages = headings.map((heading) =>
+      getPageNumberForOffset(
+        heading.element.getBoundingClientRect().top - origin,
+        pageHeight,
+        contentBreaks
+      )
+    );
+    const contentHeight = element.scrollHeight;
+
+    const container = document.createElement('div');
+    container.className = 'pdf-toc-container';
+
+    const renderTOC = (pageOffset: number): void => {
+      const entries = buildTOCHierarchy(
+        headings.map((heading, index) => ({
+          title: heading.title,
+          level: heading.level,
+          id: heading.id,
+          page: this.displayedPage(headingPages[index] + pageOffset, 0).pageNumber,
+        }))
+      );
+
+      container.innerHTML =
+        `<style>${generateTOCCSS()}\n${toc.css || ''}</style>` +
+        generateTOCHTML(entries, {
+          title: toc.title ?? 'Table of Contents',
+          includePageNumbers: toc.includePageNumbers ?? true,
+          indentPerLevel: toc.indentPerLevel ?? 10,
+          enableLinks: !!toc.enableLinks,
+        });
+    };
+
+    if (position === 'start') {
+      element.insertBefore(container, element.firstChild);
+    } else {
+      element.appendChild(container);
+    }
+
+    // Pass 2: measure the TOC and shift page numbers by its own length,
+    // re-rendering if the shifted numbers change how many pages it needs
+    let tocPages = position === 'start' ? 1 : 0;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      renderTOC(tocPages);
+      if (position !== 'start') break;
+
+      const pages = Math.max(1, Math.ceil(container.getBoundingClientRect().height / pageHeight));
+      if (pages === tocPages) break;
+      tocPages = pages;
+    }
+
+    // Keep the TOC on pages of its own
+    if (smart) {
+      if (position === 'start') {
+        container.style.breakAfter = 'page';
+      } else {
+        container.style.breakBefore = 'page';
+      }
+    } else if (position === 'start') {
+      container.style.minHeight = `${tocPages * pageHeight}px`;
+    } else {
+      const remainder = contentHeight % pageHeight;
+      container.style.paddingTop = remainder > 0 ? `${pageHeight - remainder}px` : '0';
+    }
+  }
+
+  /**
+   * Rasterize the prepared element and paginate it into a jsPDF document
+   */
+  private async renderPDF(element: HTMLElement, pageBreaks?: number[]): Promise<jsPDF> {
+    this.placedFormFields = [];
+    this.unencodableText = [];
+    this.themedBleedColor = null;
+
+    if (this.options.renderMode === 'tiled') {
+      return this.createPDFFromTiles(element, pageBreaks);
+    }
+
+    // Create canvas from HTML
+    const canvas = await this.renderToCanvas(element);
+    this.options.onProgress(40);
+
+    // Generate PDF with pagination
+    return this.createPDFFromCanvas(canvas, element, pageBreaks);
+  }
+
   /**
    * Render element to canvas using html2canvas
    * Like GoFullPage, captures the ENTIRE content height at once
@@ -274,7 +634,7 @@ export class PDFGenerator {
       logging: false,
       useCORS: true,
       allowTaint: true,
-      backgroundColor: '#ffffff',
+      backgroundColor: this.getCanvasBackground(),
       removeContainer: false,
       imageTimeout: 0,
       width: this.pageConfig.widthPx,
@@ -283,77 +643,100 @@ export class PDFGenerator {
       windowHeight: actualHeight, // Allow full height rendering
       scrollY: -window.scrollY, // Reset scroll offset
       scrollX: -window.scrollX,
+      onclone: (doc, target) => this.themeClonedDocument(doc, target),
     });
 
     return canvas;
   }
 
   /**
-   * Build encryption options for jsPDF from security configuration
+   * Render a single page-height window of the element using html2canvas clipping
    */
-  private buildEncryptionOptions(): any {
-    const security = this.options.securityOptions;
-
-    if (!security || !security.enabled) {
-      return undefined;
-    }
-
-    const userPermissions: string[] = [];
-
-    // Map permissions to jsPDF format
-    if (security.permissions) {
-      const perms = security.permissions;
+  private async renderTile(
+    element: HTMLElement,
+    top: number,
+    height: number,
+    contentHeight: number
+  ): Promise<HTMLCanvasElement> {
+    return html2canvas(element, {
+      scale: this.options.scale,
+      logging: false,
+      useCORS: true,
+      allowTaint: true,
+      backgroundColor: this.getCanvasBackground(),
+      removeContainer: true,
+      imageTimeout: 0,
+      x: 0,
+      y: top, // Offset from the element's top edge
+      width: this.pageConfig.widthPx,
+      height: Math.ceil(height),
+      windowWidth: this.pageConfig.widthPx,
+      windowHeight: contentHeight, // Lay out at full height so tiles line up
+      scrollY: -window.scrollY,
+      scrollX: -window.scrollX,
+      onclone: (doc, target) => this.themeClonedDocument(doc, target),
+    });
+  }
 
-      // Print permission
-      if (perms.printing && perms.printing !== 'none') {
-        userPermissions.push('print');
-      }
+  /**
+   * Give html2canvas's copy of the page a light theme, leaving the page itself untouched
+   *
+   * The copy's stylesheets switch to their light variants, then what is still
+   * dark is inverted to a light palette, keeping accents and images. The copy
+   * of the source element decides whether the theme is dark, since the render
+   * container has a background of its own.
+   */
+  private themeClonedDocument(doc: Document, target: HTMLElement): void {
+    if (this.options.theme !== 'auto-light') return;
 
-      // Modify permission
-      if (perms.modifying) {
-        userPermissions.push('modify');
-      }
+    forceLightColorScheme(doc);
+    const reference = this.sourceElement ? findClonedElement(this.sourceElement, doc) : null;
+    applyLightTheme(target, reference || target);
 
-      // Copy permission
-      if (perms.copying) {
-        userPermissions.push('copy');
-      }
+    if (this.pageConfig.bleed > 0) {
+      this.themedBleedColor = this.getBleedColor(target);
+    }
+  }
 
-      // Annotation/forms permission
-      if (perms.annotating || perms.fillingForms) {
-        userPermissions.push('annot-forms');
-      }
-    } else {
-      // Default permissions if not specified
-      userPermissions.push('print', 'copy');
+  /**
+   * Serialize the document, applying post-processing stages to the finished bytes
+   */
+  private async outputBlob(pdf: jsPDF): Promise<Blob> {
+    this.preflight = undefined;
+    this.sheetCount = undefined;
+    const hasFormFields = this.placedFormFields.length > 0;
+    const hasPrintBoxes = this.pageConfig.mediaOffset > 0;
+
+    if (!hasFormFields && !hasPrintBoxes && !needsPostProcessing(this.options)) {
+      return pdf.output('blob');
     }
 
-    const encryption: any = {
-      userPermissions,
-    };
+    // Fields go in first so signing and encryption cover them, and so they
+    // move with their pages when post-processing inserts other PDFs
+    let bytes: Uint8Array = new Uint8Array(pdf.output('arraybuffer'));
+    if (hasFormFields) {
+      bytes = await addFormFieldsToPDF(bytes, this.placedFormFields);
+    }
 
-    // Add passwords if provided
-    if (security.userPassword) {
-      encryption.userPassword = security.userPassword;
+    // Bleed and marks lie outside the page jsPDF drew, so the MediaBox grows last
+    if (hasPrintBoxes) {
+      bytes = await setPrintBoxes(bytes, this.pageConfig);
     }
 
-    if (security.ownerPassword) {
-      encryption.ownerPassword = security.ownerPassword;
+    if (needsPostProcessing(this.options)) {
+      const processed = await postProcessPDF(bytes, this.options);
+      bytes = processed.bytes;
+      this.preflight = processed.preflight;
+      this.sheetCount = processed.sheetCount;
     }
 
-    return encryption;
+    return new Blob([bytes as any], { type: 'application/pdf' });
   }
 
   /**
-   * Create PDF from canvas with intelligent multi-page pagination
-   * Similar to GoFullPage - captures full content and splits into pages naturally
+   * Create an empty jsPDF document with metadata applied
    */
-  private async createPDFFromCanvas(canvas: HTMLCanvasElement): Promise<jsPDF> {
-    const [marginTop, marginRight, marginBottom, marginLeft] = this.options.margins;
-
-    const canvasWidth = canvas.width;
-    const canvasHeight = canvas.height;
-
+  private createDocument(): jsPDF {
     // Build PDF options
     const pdfOptions: any = {
       orientation: this.options.orientation,
@@ -362,12 +745,6 @@ export class PDFGenerator {
       compress: this.options.compress,
     };
 
-    // Add encryption if security is enabled
-    const encryption = this.buildEncryptionOptions();
-    if (encryption) {
-      pdfOptions.encryption = encryption;
-    }
-
     // Create PDF
     const pdf = new jsPDF(pdfOptions);
 
@@ -396,6 +773,308 @@ export class PDFGenerator {
       pdf.setProperties(properties);
     }
 
+    return pdf;
+  }
+
+  /**
+   * Measure everything page decoration needs from the prepared clone
+   * (must run before the clone is cleaned up)
+   */
+  private collectPageLayout(element: HTMLElement, mmPerPx: number): PageLayout {
+    const internal = this.options.enableLinks
+      ? extractInternalLinks(element)
+      : { links: [], targets: [] };
+
+    const bookmarks = this.options.bookmarkOptions;
+    const bookmarkHeadings = bookmarks?.enabled && bookmarks.autoGenerate !== false
+      ? extractHeadings(element, bookmarks.levels || [1, 2, 3])
+          .filter((heading) => !heading.element.closest('.pdf-toc-container'))
+      : [];
+
+    // Headings are tracked like link targets so they resolve to the page they land on
+    const anchorTargets = [...internal.targets];
+    if (bookmarkHeadings.length > 0) {
+      const origin = element.getBoundingClientRect();
+      bookmarkHeadings.forEach((heading) => {
+        if (anchorTargets.some((target) => target.id === heading.id)) return;
+        anchorTargets.push({
+          id: heading.id,
+          y: heading.element.getBoundingClientRect().top - origin.top,
+        });
+      });
+    }
+
+    // Tagged output needs real text for the structure tree to point at
+    const accessibility = this.options.accessibilityOptions;
+    const structure = accessibility?.enabled
+      ? extractStructureTree(element, accessibility.lang || getDocumentLanguage(element))
+      : null;
+
+    return {
+      mmPerPx,
+      textRuns: this.options.textLayer || structure ? extractTextRuns(element) : [],
+      links: this.options.enableLinks ? extractLinkAreas(element) : [],
+      internalLinks: internal.links,
+      anchorTargets,
+      destinations: new Map(),
+      pendingLinks: [],
+      bookmarkHeadings: bookmarkHeadings.map(({ title, level, id }) => ({ title, level, id })),
+      structure,
+      formFields: this.options.formFields ? extractFormFields(element) : [],
+      bleedColor: this.pageConfig.bleed > 0
+        ? this.getBleedColor(element)
+        : null,
+    };
+  }
+
+  /**
+   * Add overlays to the current page once its slice image is placed
+   */
+  private async finishPage(
+    pdf: jsPDF,
+    layout: PageLayout,
+    sliceTop: number,
+    sliceHeight: number,
+    pageNumber: number,
+    totalPages: number
+  ): Promise<void> {
+    const [marginTop, , , marginLeft] = this.options.margins;
+    const placement: PageSlicePlacement = {
+      sliceTop,
+      sliceHeight,
+      offsetX: marginLeft,
+      offsetY: marginTop,
+      mmPerPx: layout.mmPerPx,
+    };
+
+    const structure = layout.structure;
+
+    if (layout.textRuns.length > 0) {
+      const font = this.options.textLayerFont ? registerTextLayerFont(pdf, this.options.textLayerFont) : undefined;
+      const unencodable = addTextLayerToPage(pdf, layout.textRuns, placement, structure
+        ? (run, draw) => {
+            beginMarkedContent(pdf, structure, run.element, pageNumber);
+            draw();
+            endMarkedContent(pdf);
+          }
+        : undefined, font);
+
+      this.unencodableText.push(...unencodable.map((run) => run.text));
+    }
+
+    if (structure) {
+      addFiguresToPage(pdf, structure, placement, pageNumber);
+    }
+
+    if (layout.formFields.length > 0) {
+      this.placedFormFields.push(...placeFormFieldsOnPage(layout.formFields, placement, pageNumber));
+    }
+
+    if (layout.links.length > 0) {
+      addLinksToPage(pdf, layout.links, placement);
+    }
+
+    collectDestinationsOnPage(layout.anchorTargets, placement, pageNumber, layout.destinations);
+    collectInternalLinksOnPage(layout.internalLinks, placement, pageNumber, layout.pendingLinks);
+
+    // Apply header/footer callbacks (decorative: artifacts in tagged output)
+    const shown = this.displayedPage(pageNumber, totalPages);
+    if (structure) beginArtifact(pdf, 'Pagination');
+    await this.applyHeaderFooter(pdf, shown.pageNumber, shown.totalPages);
+
+    if (this.options.showPageNumbers) {
+      this.addPageNumber(pdf, shown.pageNumber, shown.totalPages);
+    }
+    if (structure) endMarkedContent(pdf);
+
+    // Apply watermark to page
+    if (structure) beginArtifact(pdf, 'Watermark');
+    await this.applyWatermark(pdf);
+    if (structure) endMarkedContent(pdf);
+  }
+
+  /**
+   * Write annotations and the outline, which need every page to be laid out first
+   */
+  private finishDocument(pdf: jsPDF, layout: PageLayout): void {
+    addInternalLinks(pdf, layout.pendingLinks, layout.destinations);
+
+    const bookmarks = this.options.bookmarkOptions;
+    if (bookmarks?.enabled) {
+      const generated = buildBookmarkHierarchy(
+        layout.bookmarkHeadings
+          .filter((heading) => layout.destinations.has(heading.id))
+          .map((heading) => ({
+            ...heading,
+            page: layout.destinations.get(heading.id)!.pageNumber,
+          }))
+      );
+
+      // Custom entries use the displayed page numbers, which may count prepended pages
+      const offset = this.displayedPage(0, 0).pageNumber;
+      const custom = offset > 0 ? shiftBookmarkPages(bookmarks.custom || [], -offset) : bookmarks.custom;
+
+      addOutlineToPDF(pdf, mergeBookmarkEntries(generated, custom), {
+        openByDefault: bookmarks.openByDefault,
+      });
+    }
+
+    if (layout.structure) {
+      writeStructureTree(pdf, layout.structure);
+    }
+  }
+
+  /**
+   * Place a page slice image in the content area
+   * (the raster is an artifact in tagged output; the text layer carries the content)
+   *
+   * With bleed, the background is painted into the bleed and edges that touch
+   * the trim (zero margin) are stretched into it; printer's marks go around it.
+   */
+  private addPageImage(
+    pdf: jsPDF,
+    layout: PageLayout,
+    canvas: HTMLCanvasElement,
+    width: number,
+    height: number
+  ): void {
+    const [marginTop, marginRight, marginBottom, marginLeft] = this.options.margins;
+    const bleed = this.pageConfig.bleed;
+    const edges = {
+      top: marginTop === 0 ? bleed : 0,
+      right: marginRight === 0 ? bleed : 0,
+      bottom: marginBottom === 0 && marginTop + height >= this.pageConfig.height - 0.01 ? bleed : 0,
+      left: marginLeft === 0 ? bleed : 0,
+    };
+    applyColorModeToCanvas(canvas, this.options.colorMode);
+    const image = bleed > 0 ? extendIntoBleed(canvas, edges, canvas.width / width) : canvas;
+    const marks = resolvePrintMarks(this.options.printMarks);
+
+    if (layout.structure) beginArtifact(pdf, 'Layout');
+    const bleedColor = this.themedBleedColor || layout.bleedColor;
+    if (bleedColor) {
+      fillBleed(pdf, this.pageConfig, bleedColor);
+    }
+
+    pdf.addImage(
+      this.encodePageImage(image),
+      this.options.stationery ? 'PNG' : 'JPEG',
+      marginLeft - edges.left,
+      marginTop - edges.top,
+      width + edges.left + edges.right,
+      height + edges.top + edges.bottom
+    );
+
+    if (marks) {
+      drawPrintMarks(pdf, this.pageConfig, marks);
+    }
+    if (layout.structure) endMarkedContent(pdf);
+  }
+
+  /**
+   * Background color of the rendered element, in the output color mode
+   */
+  private getBleedColor(element: HTMLElement): [number, number, number] | null {
+    const view = element.ownerDocument.defaultView || window;
+    const color = parseComputedColor(view.getComputedStyle(element).backgroundColor);
+    return color && mapColor(color, this.options.colorMode);
+  }
+
+  /**
+   * Set the text color for drawn text, in the output color mode
+   */
+  private setTextColor(pdf: jsPDF, r: number, g: number, b: number): void {
+    pdf.setTextColor(...mapColor([r, g, b], this.options.colorMode));
+  }
+
+  /**
+   * Draw text centered on a point, rotated counterclockwise by `angle` degrees
+   *
+   * jsPDF's standard fonts are never embedded, which PDF/A forbids for visible
+   * text, so archival output paints the text from a canvas instead, in the
+   * current font size and text color.
+   */
+  private drawText(pdf: jsPDF, text: string, x: number, y: number, angle: number = 0): void {
+    if (!this.options.conformance && !this.options.eInvoice) {
+      pdf.text(text, x, y, angle !== 0 ? { align: 'center', angle } : { align: 'center' });
+      return;
+    }
+
+    const pxPerMm = TEXT_RASTER_DPI / 25.4;
+    const fontSize = (pdf.getFontSize() / 72) * TEXT_RASTER_DPI;
+    const font = `${fontSize}px Helvetica, Arial, sans-serif`;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.font = font;
+    const width = context.measureText(text).width;
+    if (width === 0) return;
+
+    // Bounds of the text box around its baseline anchor, after rotation
+    const radians = (angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const corners = [
+      [-width / 2, -fontSize],
+      [width / 2, -fontSize],
+      [width / 2, fontSize * 0.3],
+      [-width / 2, fontSize * 0.3],
+    ].map(([cx, cy]) => [cx * cos + cy * sin, cy * cos - cx * sin]);
+    const left = Math.floor(Math.min(...corners.map(([cx]) => cx)));
+    const top = Math.floor(Math.min(...corners.map(([, cy]) => cy)));
+    canvas.width = Math.ceil(Math.max(...corners.map(([cx]) => cx))) - left;
+    canvas.height = Math.ceil(Math.max(...corners.map(([, cy]) => cy))) - top;
+
+    context.font = font;
+    context.fillStyle = pdf.getTextColor();
+    context.textAlign = 'center';
+    context.textBaseline = 'alphabetic';
+    context.translate(-left, -top);
+    context.rotate(-radians);
+    context.fillText(text, 0, 0);
+
+    pdf.addImage(
+      canvas.toDataURL('image/png'),
+      'PNG',
+      x + left / pxPerMm,
+      y + top / pxPerMm,
+      canvas.width / pxPerMm,
+      canvas.height / pxPerMm
+    );
+  }
+
+  /**
+   * Background painted behind the rendered content
+   * (none over stationery, so the letterhead shows through)
+   */
+  private getCanvasBackground(): string | null {
+    return this.options.stationery ? null : '#ffffff';
+  }
+
+  /**
+   * Encode a page raster: JPEG normally, PNG over stationery to keep transparency
+   */
+  private encodePageImage(canvas: HTMLCanvasElement): string {
+    return this.options.stationery
+      ? canvas.toDataURL('image/png')
+      : canvas.toDataURL('image/jpeg', this.options.imageQuality);
+  }
+
+  /**
+   * Create PDF from canvas with intelligent multi-page pagination
+   * Similar to GoFullPage - captures full content and splits into pages naturally
+   */
+  private async createPDFFromCanvas(
+    canvas: HTMLCanvasElement,
+    element: HTMLElement,
+    pageBreaks?: number[]
+  ): Promise<jsPDF> {
+    const canvasWidth = canvas.width;
+    const canvasHeight = canvas.height;
+
+    const pdf = this.createDocument();
+
     // Calculate dimensions - image width fills the usable page width
     const imgWidth = this.pageConfig.usableWidth;
 
@@ -405,29 +1084,17 @@ export class PDFGenerator {
     // Calculate how much content fits on one page
     const pageHeightMm = this.pageConfig.usableHeight;
 
+    // Millimetres per CSS pixel of the rendered element (canvas is scaled)
+    const mmPerPx = (imgWidth * this.options.scale) / canvasWidth;
+    const layout = this.collectPageLayout(element, mmPerPx);
+
     // Check if content fits on a single page
-    if (imgHeightMm <= pageHeightMm) {
+    if (imgHeightMm <= pageHeightMm && !pageBreaks?.length) {
       // Single page - add directly
-      const imgData = canvas.toDataURL('image/jpeg', this.options.imageQuality);
-
-      pdf.addImage(
-        imgData,
-        'JPEG',
-        marginLeft,
-        marginTop,
-        imgWidth,
-        imgHeightMm
-      );
-
-      // Apply header/footer callbacks
-      await this.applyHeaderFooter(pdf, 1, 1);
+      this.addPageImage(pdf, layout, canvas, imgWidth, imgHeightMm);
 
-      if (this.options.showPageNumbers) {
-        this.addPageNumber(pdf, 1, 1);
-      }
-
-      // Apply watermark to page
-      await this.applyWatermark(pdf);
+      await this.finishPage(pdf, layout, 0, canvasHeight / this.options.scale, 1, 1);
+      this.finishDocument(pdf, layout);
 
       return pdf;
     }
@@ -436,9 +1103,14 @@ export class PDFGenerator {
     // Calculate how many pixels fit on one page
     const pageHeightPx = (pageHeightMm * canvasWidth) / imgWidth;
 
+    // Break-aware pagination slices at precomputed positions (CSS px → canvas px)
+    const sliceEnds = pageBreaks
+      ? [...pageBreaks.map((position) => Math.round(position * this.options.scale)), canvasHeight]
+      : null;
+
     let currentY = 0;
     let pageNumber = 0;
-    const totalPages = Math.ceil(canvasHeight / pageHeightPx);
+    const totalPages = sliceEnds ? sliceEnds.length : Math.ceil(canvasHeight / pageHeightPx);
 
     while (currentY < canvasHeight) {
       pageNumber++;
@@ -449,7 +1121,9 @@ export class PDFGenerator {
 
       // Calculate height for this slice
       const remainingHeight = canvasHeight - currentY;
-      const sliceHeight = Math.min(pageHeightPx, remainingHeight);
+      const sliceHeight = sliceEnds
+        ? Math.min(sliceEnds[pageNumber - 1] - currentY, remainingHeight)
+        : Math.min(pageHeightPx, remainingHeight);
 
       // Create a canvas for this page
       const pageCanvas = document.createElement('canvas');
@@ -462,9 +1136,12 @@ export class PDFGenerator {
         break;
       }
 
-      // Fill with white background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvasWidth, sliceHeight);
+      // Fill with white background (left transparent over stationery)
+      const background = this.getCanvasBackground();
+      if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, canvasWidth, sliceHeight);
+      }
 
       // Draw the slice from the main canvas
       ctx.drawImage(
@@ -475,40 +1152,84 @@ export class PDFGenerator {
         canvasWidth, sliceHeight   // Destination dimensions
       );
 
-      // Convert this slice to image
-      const pageImgData = pageCanvas.toDataURL('image/jpeg', this.options.imageQuality);
-
       // Calculate the mm height for this slice
       const sliceHeightMm = (sliceHeight * imgWidth) / canvasWidth;
 
       // Add to PDF
-      pdf.addImage(
-        pageImgData,
-        'JPEG',
-        marginLeft,
-        marginTop,
-        imgWidth,
-        sliceHeightMm
+      this.addPageImage(pdf, layout, pageCanvas, imgWidth, sliceHeightMm);
+
+      await this.finishPage(
+        pdf,
+        layout,
+        currentY / this.options.scale,
+        sliceHeight / this.options.scale,
+        pageNumber,
+        totalPages
       );
 
-      // Apply header/footer callbacks
-      await this.applyHeaderFooter(pdf, pageNumber, totalPages);
+      // Move to next slice
+      currentY += sliceHeight;
+    }
+
+    this.finishDocument(pdf, layout);
+
+    return pdf;
+  }
+
+  /**
+   * Create PDF by rendering one page-height tile at a time
+   * Keeps canvas memory flat regardless of document length, avoiding browser
+   * maximum canvas area limits on long documents at high scale
+   */
+  private async createPDFFromTiles(
+    element: HTMLElement,
+    pageBreaks?: number[]
+  ): Promise<jsPDF> {
+    const pdf = this.createDocument();
+
+    const contentHeight = element.scrollHeight || element.offsetHeight;
+    const imgWidth = this.pageConfig.usableWidth;
+    const mmPerPx = imgWidth / this.pageConfig.widthPx;
+    const layout = this.collectPageLayout(element, mmPerPx);
+
+    // Page slices in CSS pixels
+    const sliceEnds = pageBreaks ? [...pageBreaks, contentHeight] : [];
+    if (!pageBreaks) {
+      for (let end = this.pageConfig.heightPx; end < contentHeight; end += this.pageConfig.heightPx) {
+        sliceEnds.push(end);
+      }
+      sliceEnds.push(contentHeight);
+    }
+
+    const totalPages = sliceEnds.length;
+    let currentY = 0;
 
-      if (this.options.showPageNumbers) {
-        this.addPageNumber(pdf, pageNumber, totalPages);
+    for (let i = 0; i < totalPages; i++) {
+      const pageNumber = i + 1;
+      const sliceHeight = sliceEnds[i] - currentY;
+
+      if (pageNumber > 1) {
+        pdf.addPage();
       }
 
-      // Apply watermark to page
-      await this.applyWatermark(pdf);
+      const tile = await this.renderTile(element, currentY, sliceHeight, contentHeight);
+      this.addPageImage(pdf, layout, tile, imgWidth, sliceHeight * mmPerPx);
 
-      // Move to next slice
-      currentY += sliceHeight;
+      // Free the tile's backing store before rendering the next one
+      tile.width = 0;
+      tile.height = 0;
+
+      await this.finishPage(pdf, layout, currentY, sliceHeight, pageNumber, totalPages);
+
+      this.options.onProgress(10 + Math.round((pageNumber / totalPages) * 70));
+      currentY = sliceEnds[i];
     }
 
+    this.finishDocument(pdf, layout);
+
     return pdf;
   }
 
-
   /**
    * Add page number to PDF
    */
@@ -518,14 +1239,14 @@ export class PDFGenerator {
     const pageWidth = pageSize.getWidth();
 
     pdf.setFontSize(10);
-    pdf.setTextColor(128, 128, 128);
+    this.setTextColor(pdf, 128, 128, 128);
 
     const text = `${pageNumber} / ${totalPages}`;
 
     if (this.options.pageNumberPosition === 'footer') {
-      pdf.text(text, pageWidth / 2, pageHeight - 5, { align: 'center' });
+      this.drawText(pdf, text, pageWidth / 2, pageHeight - 5);
     } else {
-      pdf.text(text, pageWidth / 2, 5, { align: 'center' });
+      this.drawText(pdf, text, pageWidth / 2, 5);
     }
   }
 
@@ -551,6 +1272,21 @@ export class PDFGenerator {
     return rendered;
   }
 
+  /**
+   * Page number and total shown for a generated page
+   *
+   * Prepended and appended PDF pages are included unless
+   * `insertedPageNumbering` is `'skip'`.
+   */
+  private displayedPage(pageNumber: number, totalPages: number): { pageNumber: number; totalPages: number } {
+    if (this.options.insertedPageNumbering === 'skip') {
+      return { pageNumber, totalPages };
+    }
+
+    const { before, after } = this.insertedPages;
+    return { pageNumber: pageNumber + before, totalPages: totalPages + before + after };
+  }
+
   /**
    * Apply header and footer templates or callbacks
    */
@@ -605,6 +1341,7 @@ export class PDFGenerator {
           });
 
           // Add to PDF
+          applyColorModeToCanvas(canvas, this.options.colorMode);
           const imgData = canvas.toDataURL('image/png');
           pdf.addImage(imgData, 'PNG', marginLeft, marginTop, this.pageConfig.usableWidth, height);
         } catch (error) {
@@ -621,8 +1358,8 @@ export class PDFGenerator {
         const headerText = headerElement.textContent || headerElement.innerText || '';
         if (headerText) {
           pdf.setFontSize(10);
-          pdf.setTextColor(64, 64, 64);
-          pdf.text(headerText, pageWidth / 2, 7, { align: 'center' });
+          this.setTextColor(pdf, 64, 64, 64);
+          this.drawText(pdf, headerText, pageWidth / 2, 7);
         }
       }
     }
@@ -672,6 +1409,7 @@ export class PDFGenerator {
           });
 
           // Add to PDF
+          applyColorModeToCanvas(canvas, this.options.colorMode);
           const imgData = canvas.toDataURL('image/png');
           const yPosition = pageHeight - marginBottom - height;
           pdf.addImage(imgData, 'PNG', marginLeft, yPosition, this.pageConfig.usableWidth, height);
@@ -689,8 +1427,8 @@ export class PDFGenerator {
         const footerText = footerElement.textContent || footerElement.innerText || '';
         if (footerText) {
           pdf.setFontSize(10);
-          pdf.setTextColor(64, 64, 64);
-          pdf.text(footerText, pageWidth / 2, pageHeight - 7, { align: 'center' });
+          this.setTextColor(pdf, 64, 64, 64);
+          this.drawText(pdf, footerText, pageWidth / 2, pageHeight - 7);
         }
       }
     }
@@ -736,7 +1474,7 @@ export class PDFGenerator {
         b = parseInt(hex.substring(4, 6), 16);
       }
 
-      pdf.setTextColor(r, g, b);
+      this.setTextColor(pdf, r, g, b);
       (pdf as any).setGState((pdf as any).GState({ opacity }));
 
       // Calculate text dimensions (approximate)
@@ -772,14 +1510,7 @@ export class PDFGenerator {
       }
 
       // Apply rotation and draw text
-      if (rotation !== 0) {
-        pdf.text(watermark.text, x, y, {
-          align: 'center',
-          angle: rotation,
-        });
-      } else {
-        pdf.text(watermark.text, x, y, { align: 'center' });
-      }
+      this.drawText(pdf, watermark.text, x, y, rotation);
     }
 
     // Handle image watermark
@@ -836,6 +1567,7 @@ export class PDFGenerator {
         (pdf as any).setGState((pdf as any).GState({ opacity }));
 
         // Add image
+        imageData = await applyColorModeToDataURL(imageData, this.options.colorMode);
         pdf.addImage(imageData, 'PNG', x, y, imgWidth, imgHeight);
       } catch (error) {
         console.error('Failed to add image watermark:', error);
@@ -856,6 +1588,14 @@ export class PDFGenerator {
       this.styleElement = null;
     }
 
+    // Put back the page's own color declarations
+    if (this.restoreStylesheetColors) {
+      this.restoreStylesheetColors();
+      this.restoreStylesheetColors = null;
+    }
+
+    this.sourceElement = null;
+
     // Remove prepared element and container
     if (preparedElement) {
       const container = preparedElement.parentNode;
@@ -1260,13 +2000,7 @@ export async function generateBatchPDF(
 
   // Download the PDF if in browser environment and filename provided
   if (filename && typeof document !== 'undefined') {
-    const sanitized = sanitizeFilename(filename, 'pdf');
-    const url = URL.createObjectURL(result.blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = sanitized;
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(result.blob, sanitizeFilename(filename, 'pdf'));
   }
 
   return result;
@@ -1339,8 +2073,7 @@ async function generateBatchPDFSeparate(
   const progressCallback = options.onProgress;
   const itemResults: BatchPDFGenerationResult['items'] = [];
 
-  // We'll generate each item as a separate PDF and concatenate the blobs
-  // This is simpler than trying to merge PDF objects
+  // Each item is generated as a separate PDF, then merged
   const individualPDFs: Array<{ blob: Blob; title?: string }> = [];
 
   for (let i = 0; i < items.length; i++) {
@@ -1360,8 +2093,22 @@ async function generateBatchPDFSeparate(
       element = item.content.cloneNode(true) as HTMLElement;
     }
 
-    // Generate individual PDF for this item
-    const generator = new PDFGenerator(options);
+    // Generate individual PDF for this item (post-processed once after merging,
+    // but converted to PDF/A here too so its page numbers and headers are drawn
+    // archival-safe; that conversion is redone on the merged document)
+    const generator = new PDFGenerator({
+      ...options,
+      securityOptions: undefined,
+      signatureOptions: undefined,
+      conformance: options.eInvoice ? 'PDF/A-3b' : options.conformance,
+      attachments: undefined,
+      eInvoice: undefined,
+      prependPDFs: undefined,
+      appendPDFs: undefined,
+      imposition: undefined,
+      // Merging drops each item's AcroForm, so keep the controls rasterized
+      formFields: false,
+    });
     const blob = await generator.generateBlob(element);
 
     individualPDFs.push({
@@ -1370,76 +2117,42 @@ async function generateBatchPDFSeparate(
     });
   }
 
-  // Use pdf-lib to properly merge all PDFs into one
-  const { PDFDocument } = await import('pdf-lib');
-
-  // Create a new merged PDF document
-  const mergedPdf = await PDFDocument.create();
-
-  let currentPage = 0;
-
-  // Process each individual PDF
-  for (let i = 0; i < individualPDFs.length; i++) {
-    const pdfData = individualPDFs[i];
-
-    try {
-      // Convert blob to array buffer
-      const arrayBuffer = await pdfData.blob.arrayBuffer();
-
-      // Load the PDF using pdf-lib
-      const pdf = await PDFDocument.load(arrayBuffer);
-
-      // Get all pages from this PDF
-      const pageCount = pdf.getPageCount();
-
-      // Copy all pages from this PDF to the merged PDF
-      const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-
-      // Add each copied page to the merged document
-      copiedPages.forEach(page => {
-        mergedPdf.addPage(page);
-      });
-
-      // Track metadata for this item
-      const startPage = currentPage + 1;
-      const endPage = currentPage + pageCount;
-
-      itemResults.push({
-        title: pdfData.title,
-        startPage,
-        endPage,
-        pageCount,
-        scaleFactor: 1.0,
-      });
-
-      currentPage = endPage;
+  // Prepended and appended PDFs are inserted once, around the merged items
+  const inserted = await countInsertedPages(options);
+  let currentPage = inserted.before;
+
+  for (const pdfData of individualPDFs) {
+    const pageCount = await getPDFPageCount(pdfData.blob);
+    const startPage = currentPage + 1;
+    const endPage = currentPage + pageCount;
+
+    itemResults.push({
+      title: pdfData.title,
+      startPage,
+      endPage,
+      pageCount,
+      scaleFactor: 1.0,
+    });
 
-    } catch (error) {
-      console.error(`Failed to merge PDF for item ${i}:`, error);
+    currentPage = endPage;
+  }
 
-      // Fallback metadata (still add to results even if merge failed)
-      const pageCount = 1;
-      const startPage = currentPage + 1;
-      const endPage = currentPage + pageCount;
+  // mergePDFs keeps the first item's metadata and every item's outline
+  let mergedPdfBytes = await mergePDFs(individualPDFs.map((pdfData) => pdfData.blob));
+  let preflight: PDFAPreflightReport | undefined;
+  let sheetCount: number | undefined;
 
-      itemResults.push({
-        title: pdfData.title,
-        startPage,
-        endPage,
-        pageCount,
-        scaleFactor: 1.0,
-      });
-
-      currentPage = endPage;
-    }
+  // Each item already carries its own stationery, so every letter starts on the first-page design
+  const mergedOptions = { ...options, stationery: undefined };
+  if (needsPostProcessing(mergedOptions)) {
+    ({ bytes: mergedPdfBytes, preflight, sheetCount } = await postProcessPDF(mergedPdfBytes, mergedOptions));
   }
 
-  // Save the merged PDF as bytes
-  const mergedPdfBytes = await mergedPdf.save();
-
   // Convert to Blob (type assertion needed for pdf-lib compatibility)
   const finalBlob = new Blob([mergedPdfBytes as any], { type: 'application/pdf' });
-  const totalPages = currentPage;
+  const totalPages = sheetCount ?? (options.insertedPageNumbering === 'skip'
+    ? currentPage - inserted.before
+    : currentPage + inserted.after);
   const generationTime = Date.now() - startTime;
 
   if (progressCallback) {
@@ -1456,6 +2169,7 @@ async function generateBatchPDFSeparate(
     fileSize: finalBlob.size,
     generationTime,
     items: itemResults,
+    ...(preflight && { preflight }),
   };
 }
 
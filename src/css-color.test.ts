@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { cssColorToRgb } from './css-color';
+
+describe('cssColorToRgb', () => {
+  it.each([
+    ['oklch(1 0.4 145)', 'rgb(255, 255, 255)'],
+    ['oklch(100% 0.2 30)', 'rgb(255, 255, 255)'],
+    ['oklab(1 0.2 -0.1)', 'rgb(255, 255, 255)'],
+    ['oklch(0 0.3 30)', 'rgb(0, 0, 0)'],
+  ])('maps %s at the lightness limits to %s', (value, rgb) => {
+    expect(cssColorToRgb(value)).toBe(rgb);
+  });
+
+  it('maps an out-of-gamut color below white, keeping its hue', () => {
+    const [r, g, b] = (cssColorToRgb('oklch(0.7 0.4 145)') || '').match(/\d+/g)!.map(Number);
+    expect(g).toBeLessThan(255);
+    expect(g).toBeGreaterThan(r + 100);
+    expect(g).toBeGreaterThan(b + 100);
+  });
+});
@@ -0,0 +1,1342 @@
+/**
+ * PDF Generator Library - CSS Color
+ *
+ * CSS Color 4/5 parsing, and conversion of modern color syntax to sRGB
+ * before rendering
+ */
+
+/**
+ * Color spaces a parsed color can be expressed in
+ */
+export type CSSColorSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'display-p3'
+  | 'a98-rgb'
+  | 'prophoto-rgb'
+  | 'rec2020'
+  | 'xyz-d50'
+  | 'xyz-d65'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'hsl'
+  | 'hwb';
+
+/**
+ * A parsed CSS color
+ *
+ * Coordinates use the reference ranges of CSS Color 4: 0..1 for the RGB and
+ * XYZ spaces, 0..100 for hsl/hwb saturation, lightness, whiteness and
+ * blackness and for Lab/LCH lightness, 0..1 for OKLab/OKLCH lightness, and
+ * degrees for hues. Missing (`none`) components are NaN.
+ */
+export interface CSSColor {
+  space: CSSColorSpace;
+  coords: [number, number, number];
+  alpha: number;
+}
+
+type Vector = [number, number, number];
+type Matrix = [Vector, Vector, Vector];
+
+/**
+ * A CSS token of a color value
+ * @internal
+ */
+type Token =
+  | { type: 'number'; value: number; unit: string }
+  | { type: 'ident'; value: string }
+  | { type: 'function'; name: string; body: string }
+  | { type: 'hash'; value: string }
+  | { type: 'delim'; value: string };
+
+/**
+ * A color function channel: its keyword in relative colors and the value of 100%
+ * @internal
+ */
+interface Channel {
+  name: string;
+  reference: number;
+  hue?: boolean;
+  min?: number;
+  max?: number;
+}
+
+const SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const XYZ_TO_SRGB: Matrix = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+const P3_TO_XYZ: Matrix = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+const XYZ_TO_P3: Matrix = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+const A98_TO_XYZ: Matrix = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+const XYZ_TO_A98: Matrix = [
+  [2.0415879038107465, -0.5650069742788596, -0.34473135077832956],
+  [-0.9692436362808795, 1.8759675015077202, 0.04155505740717557],
+  [0.013444280632031142, -0.11836239223101838, 1.0151749943912054],
+];
+const REC2020_TO_XYZ: Matrix = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+const XYZ_TO_REC2020: Matrix = [
+  [1.716651187971268, -0.355670783776392, -0.25336628137366],
+  [-0.666684351832489, 1.616481236634939, 0.0157685458139111],
+  [0.017639857445311, -0.042770613257809, 0.942103121235474],
+];
+/** ProPhoto RGB is relative to D50 */
+const PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+const XYZ_D50_TO_PROPHOTO: Matrix = [
+  [1.3457868816471583, -0.25557208737979464, -0.05110186497554526],
+  [-0.5446307051249019, 1.5082477428451468, 0.02052744743642139],
+  [0, 0, 1.2119675456389452],
+];
+/** Bradford chromatic adaptation between the D65 and D50 white points */
+const D65_TO_D50: Matrix = [
+  [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+  [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+  [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371],
+];
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const XYZ_TO_LMS: Matrix = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+const LMS_TO_XYZ: Matrix = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+const OKLAB_TO_LMS: Matrix = [
+  [1, 0.3963377921737678, 0.2158037580607588],
+  [1, -0.1055613423236563, -0.0638541747717059],
+  [1, -0.0894841820949657, -1.2914855378640917],
+];
+
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+/** Just noticeable difference in OKLab, the tolerance of gamut mapping */
+const GAMUT_JND = 0.02;
+
+/** Chroma precision at which gamut mapping stops searching */
+const GAMUT_EPSILON = 0.0001;
+
+/** Hue position in the coordinates of the cylindrical spaces */
+const HUE_INDEX: Partial<Record<CSSColorSpace, number>> = { hsl: 0, hwb: 0, lch: 2, oklch: 2 };
+
+const ALPHA_CHANNEL: Channel = { name: 'alpha', reference: 1, min: 0, max: 1 };
+
+/** Color functions with their space, channels and the factor from channel values to coordinates */
+const COLOR_FUNCTIONS: Record<string, { space: CSSColorSpace; channels: Channel[]; scale: number }> = {
+  rgb: {
+    space: 'srgb',
+    channels: [{ name: 'r', reference: 255 }, { name: 'g', reference: 255 }, { name: 'b', reference: 255 }],
+    scale: 255,
+  },
+  hsl: {
+    space: 'hsl',
+    channels: [{ name: 'h', reference: 360, hue: true }, { name: 's', reference: 100, min: 0 }, { name: 'l', reference: 100 }],
+    scale: 1,
+  },
+  hwb: {
+    space: 'hwb',
+    channels: [{ name: 'h', reference: 360, hue: true }, { name: 'w', reference: 100 }, { name: 'b', reference: 100 }],
+    scale: 1,
+  },
+  lab: {
+    space: 'lab',
+    channels: [{ name: 'l', reference: 100, min: 0, max: 100 }, { name: 'a', reference: 125 }, { name: 'b', reference: 125 }],
+    scale: 1,
+  },
+  lch: {
+    space: 'lch',
+    channels: [
+      { name: 'l', reference: 100, min: 0, max: 100 },
+      { name: 'c', reference: 150, min: 0 },
+      { name: 'h', reference: 360, hue: true },
+    ],
+    scale: 1,
+  },
+  oklab: {
+    space: 'oklab',
+    channels: [{ name: 'l', reference: 1, min: 0, max: 1 }, { name: 'a', reference: 0.4 }, { name: 'b', reference: 0.4 }],
+    scale: 1,
+  },
+  oklch: {
+    space: 'oklch',
+    channels: [
+      { name: 'l', reference: 1, min: 0, max: 1 },
+      { name: 'c', reference: 0.4, min: 0 },
+      { name: 'h', reference: 360, hue: true },
+    ],
+    scale: 1,
+  },
+};
+COLOR_FUNCTIONS.rgba = COLOR_FUNCTIONS.rgb;
+COLOR_FUNCTIONS.hsla = COLOR_FUNCTIONS.hsl;
+
+/** Spaces of the `color()` function */
+const PREDEFINED_SPACES: Record<string, CSSColorSpace> = {
+  srgb: 'srgb',
+  'srgb-linear': 'srgb-linear',
+  'display-p3': 'display-p3',
+  'a98-rgb': 'a98-rgb',
+  'prophoto-rgb': 'prophoto-rgb',
+  rec2020: 'rec2020',
+  xyz: 'xyz-d65',
+  'xyz-d50': 'xyz-d50',
+  'xyz-d65': 'xyz-d65',
+};
+
+/** Interpolation spaces of `color-mix()` */
+const MIX_SPACES: Record<string, CSSColorSpace> = {
+  ...PREDEFINED_SPACES,
+  lab: 'lab',
+  lch: 'lch',
+  oklab: 'oklab',
+  oklch: 'oklch',
+  hsl: 'hsl',
+  hwb: 'hwb',
+};
+
+/** CSS named colors as name:hex pairs */
+const NAMED_COLOR_LIST =
+  'aliceblue:f0f8ff,antiquewhite:faebd7,aqua:00ffff,aquamarine:7fffd4,azure:f0ffff,beige:f5f5dc,bisque:ffe4c4,' +
+  'black:000000,blanchedalmond:ffebcd,blue:0000ff,blueviolet:8a2be2,brown:a52a2a,burlywood:deb887,cadetblue:5f9ea0,' +
+  'chartreuse:7fff00,chocolate:d2691e,coral:ff7f50,cornflowerblue:6495ed,cornsilk:fff8dc,crimson:dc143c,cyan:00ffff,' +
+  'darkblue:00008b,darkcyan:008b8b,darkgoldenrod:b8860b,darkgray:a9a9a9,darkgreen:006400,darkgrey:a9a9a9,' +
+  'darkkhaki:bdb76b,darkmagenta:8b008b,darkolivegreen:556b2f,darkorange:ff8c00,darkorchid:9932cc,darkred:8b0000,' +
+  'darksalmon:e9967a,darkseagreen:8fbc8f,darkslateblue:483d8b,darkslategray:2f4f4f,darkslategrey:2f4f4f,' +
+  'darkturquoise:00ced1,darkviolet:9400d3,deeppink:ff1493,deepskyblue:00bfff,dimgray:696969,dimgrey:696969,' +
+  'dodgerblue:1e90ff,firebrick:b22222,floralwhite:fffaf0,forestgreen:228b22,fuchsia:ff00ff,gainsboro:dcdcdc,' +
+  'ghostwhite:f8f8ff,gold:ffd700,goldenrod:daa520,gray:808080,green:008000,greenyellow:adff2f,grey:808080,' +
+  'honeydew:f0fff0,hotpink:ff69b4,indianred:cd5c5c,indigo:4b0082,ivory:fffff0,khaki:f0e68c,lavender:e6e6fa,' +
+  'lavenderblush:fff0f5,lawngreen:7cfc00,lemonchiffon:fffacd,lightblue:add8e6,lightcoral:f08080,lightcyan:e0ffff,' +
+  'lightgoldenrodyellow:fafad2,lightgray:d3d3d3,lightgreen:90ee90,lightgrey:d3d3d3,lightpink:ffb6c1,' +
+  'lightsalmon:ffa07a,lightseagreen:20b2aa,lightskyblue:87cefa,lightslategray:778899,lightslategrey:778899,' +
+  'lightsteelblue:b0c4de,lightyellow:ffffe0,lime:00ff00,limegreen:32cd32,linen:faf0e6,magenta:ff00ff,maroon:800000,' +
+  'mediumaquamarine:66cdaa,mediumblue:0000cd,mediumorchid:ba55d3,mediumpurple:9370db,mediumseagreen:3cb371,' +
+  'mediumslateblue:7b68ee,mediumspringgreen:00fa9a,mediumturquoise:48d1cc,mediumvioletred:c71585,' +
+  'midnightblue:191970,mintcream:f5fffa,mistyrose:ffe4e1,moccasin:ffe4b5,navajowhite:ffdead,navy:000080,' +
+  'oldlace:fdf5e6,olive:808000,olivedrab:6b8e23,orange:ffa500,orangered:ff4500,orchid:da70d6,palegoldenrod:eee8aa,' +
+  'palegreen:98fb98,paleturquoise:afeeee,palevioletred:db7093,papayawhip:ffefd5,peachpuff:ffdab9,peru:cd853f,' +
+  'pink:ffc0cb,plum:dda0dd,powderblue:b0e0e6,purple:800080,rebeccapurple:663399,red:ff0000,rosybrown:bc8f8f,' +
+  'royalblue:4169e1,saddlebrown:8b4513,salmon:fa8072,sandybrown:f4a460,seagreen:2e8b57,seashell:fff5ee,' +
+  'sienna:a0522d,silver:c0c0c0,skyblue:87ceeb,slateblue:6a5acd,slategray:708090,slategrey:708090,snow:fffafa,' +
+  'springgreen:00ff7f,steelblue:4682b4,tan:d2b48c,teal:008080,thistle:d8bfd8,tomato:ff6347,turquoise:40e0d0,' +
+  'violet:ee82ee,wheat:f5deb3,white:ffffff,whitesmoke:f5f5f5,yellow:ffff00,yellowgreen:9acd32';
+
+let namedColors: Map<string, string> | null = null;
+
+/** Color functions whose values may need converting; rgb() and hsl() only in relative syntax */
+const COLOR_FUNCTION_PATTERN = /\b(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\(/gi;
+
+const MODERN_COLOR_PATTERN = /\b(?:hwb|lab|lch|oklab|oklch|color|color-mix)\(|\b(?:rgba?|hsla?)\(\s*from\b/i;
+
+/** Computed color properties rewritten on elements */
+const COLOR_PROPERTIES = [
+  'color',
+  'background-color',
+  'background-image',
+  'border-top-color',
+  'border-right-color',
+  'border-bottom-color',
+  'border-left-color',
+  'outline-color',
+  'text-decoration-color',
+  'text-emphasis-color',
+  'column-rule-color',
+  'caret-color',
+  'accent-color',
+  'box-shadow',
+  'text-shadow',
+  'fill',
+  'stroke',
+  'stop-color',
+  'flood-color',
+  'lighting-color',
+  '-webkit-text-fill-color',
+  '-webkit-text-stroke-color',
+];
+
+/** SVG presentation attributes that take colors */
+const COLOR_ATTRIBUTES = ['fill', 'stroke', 'stop-color', 'flood-color', 'lighting-color', 'color'];
+
+/**
+ * Parse any CSS color value
+ *
+ * Supports hex and named colors, `rgb()`, `hsl()`, `hwb()`, `lab()`,
+ * `lch()`, `oklab()`, `oklch()`, `color()` in every predefined space,
+ * `color-mix()` and relative color syntax (`oklch(from var l c h)`), with
+ * `none`, percentages, angle units and `calc()` in components.
+ *
+ * @returns The color, or null when the value is not a color or depends on
+ * something unknown here (`currentcolor`, `var()`)
+ */
+export function parseCSSColor(value: string): CSSColor | null {
+  const tokens = tokenize(value.trim());
+  return tokens && tokens.length === 1 ? parseColorToken(tokens[0]) : null;
+}
+
+/**
+ * Convert a color to sRGB, gamut mapping colors that sRGB cannot show
+ *
+ * Out-of-gamut colors are mapped with the CSS Color 4 algorithm: chroma is
+ * reduced in OKLCH, keeping lightness and hue, until clipping the color to
+ * sRGB is no longer noticeable.
+ *
+ * @returns Red, green and blue from 0 to 1, and alpha
+ */
+export function toSRGB(color: CSSColor): [number, number, number, number] {
+  const xyz = toXYZ(color);
+  const rgb = convert(color, 'srgb');
+  const alpha = Number.isNaN(color.alpha) ? 0 : color.alpha;
+
+  if (isInGamut(rgb)) return [...clip(rgb), alpha];
+
+  // OKLab and OKLCH colors keep their own lightness: the round trip through
+  // XYZ can leave oklch(1 ...) a hair below 1, missing the white shortcut
+  const [lightness, chroma, hue] = color.space === 'oklch' || color.space === 'oklab'
+    ? toOKLCH(color)
+    : fromXYZ(xyz, 'oklch');
+  if (lightness >= 1) return [1, 1, 1, alpha];
+  if (lightness <= 0) return [0, 0, 0, alpha];
+
+  const toRGB = (c: number) => fromXYZ(toXYZ({ space: 'oklch', coords: [lightness, c, hue || 0], alpha }), 'srgb');
+  const distance = (rgbColor: Vector, c: number) => {
+    const [l1, a1, b1] = fromXYZ(toXYZ({ space: 'srgb', coords: rgbColor, alpha }), 'oklab');
+    const [l2, a2, b2] = polarToRect([lightness, c, hue || 0]);
+    return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+  };
+
+  let clipped = clip(toRGB(chroma));
+  if (distance(clipped, chroma) < GAMUT_JND) return [...clipped, alpha];
+
+  let min = 0;
+  let max = chroma;
+  let minInGamut = true;
+
+  while (max - min > GAMUT_EPSILON) {
+    const current = (min + max) / 2;
+    const candidate = toRGB(current);
+
+    if (minInGamut && isInGamut(candidate)) {
+      min = current;
+      continue;
+    }
+
+    clipped = clip(candidate);
+    const error = distance(clipped, current);
+    if (error < GAMUT_JND) {
+      if (GAMUT_JND - error < GAMUT_EPSILON) break;
+      minInGamut = false;
+      min = current;
+    } else {
+      max = current;
+    }
+  }
+
+  return [...clipped, alpha];
+}
+
+/**
+ * Convert a CSS color to an `rgb()`/`rgba()` string, gamut mapped to sRGB
+ *
+ * @returns e.g. "rgb(123, 45, 67)" or "rgba(123, 45, 67, 0.5)"; null when
+ * the value cannot be parsed
+ */
+export function cssColorToRgb(value: string): string | null {
+  const color = parseCSSColor(value);
+  return color ? toRgbString(color) : null;
+}
+
+/**
+ * Serialize a color as `rgb()`/`rgba()`, gamut mapped to sRGB
+ */
+export function toRgbString(color: CSSColor): string {
+  const [r, g, b, alpha] = toSRGB(color);
+  const channels = [r, g, b].map((channel) => Math.round(channel * 255)).join(', ');
+  return alpha < 1 ? `rgba(${channels}, ${Number(alpha.toFixed(3))})` : `rgb(${channels})`;
+}
+
+/**
+ * Express a color in another color space
+ */
+export function convertColor(color: CSSColor, space: CSSColorSpace): CSSColor {
+  return { space, coords: convert(color, space), alpha: color.alpha };
+}
+
+/**
+ * Whether CSS text contains colors that need converting: `hwb()`, `lab()`,
+ * `lch()`, `oklab()`, `oklch()`, `color()`, `color-mix()` or relative colors
+ */
+export function hasModernColor(css: string): boolean {
+  return MODERN_COLOR_PATTERN.test(css);
+}
+
+/**
+ * Convert every modern color in CSS text to `rgb()`/`rgba()`
+ *
+ * Colors that depend on `var()` or `currentcolor` cannot be resolved from the
+ * text alone and are left as they are; colors nested inside them are still
+ * converted.
+ */
+export function convertModernColorsInCSS(css: string): string {
+  if (!hasModernColor(css)) return css;
+
+  const pattern = new RegExp(COLOR_FUNCTION_PATTERN.source, 'gi');
+  let result = '';
+  let copied = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(css))) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosingParen(css, open);
+    if (close < 0) break;
+
+    const text = css.slice(match.index, close + 1);
+    const rgb = hasModernColor(text) ? cssColorToRgb(text) : null;
+
+    if (rgb) {
+      result += css.slice(copied, match.index) + rgb;
+      copied = close + 1;
+      pattern.lastIndex = close + 1;
+    } else {
+      pattern.lastIndex = open + 1;
+    }
+  }
+
+  return result + css.slice(copied);
+}
+
+/**
+ * Convert modern colors in an element and its descendants
+ *
+ * Rewrites inline styles (custom properties included), SVG color
+ * attributes and `<style>` elements, resolves custom properties through
+ * `resolveCustomPropertyColors`, then overrides every computed color that is
+ * still modern, such as colors from cross-origin stylesheets or
+ * `color-mix()` over variables, with its sRGB value.
+ */
+export function convertModernColorsInElement(root: HTMLElement): void {
+  const elements = [root, ...Array.from(root.querySelectorAll<HTMLElement | SVGElement>('*'))];
+
+  elements.forEach((element) => {
+    ['style', ...COLOR_ATTRIBUTES].forEach((attribute) => {
+      const value = element.getAttribute(attribute);
+      if (value && hasModernColor(value)) {
+        element.setAttribute(attribute, convertModernColorsInCSS(value));
+      }
+    });
+
+    if (element instanceof HTMLStyleElement && element.textContent && hasModernColor(element.textContent)) {
+      element.textContent = convertModernColorsInCSS(element.textContent);
+    }
+  });
+
+  if (!root.isConnected) return;
+
+  resolveCustomPropertyColors(root);
+
+  elements.forEach((element) => {
+    const computed = window.getComputedStyle(element);
+    COLOR_PROPERTIES.forEach((property) => {
+      const value = computed.getPropertyValue(property);
+      if (value && hasModernColor(value)) {
+        const converted = convertModernColorsInCSS(value);
+        if (converted !== value) element.style.setProperty(property, converted, 'important');
+      }
+    });
+  });
+}
+
+/**
+ * Resolve custom properties that hold modern colors, on an element and its
+ * descendants
+ *
+ * Values are read from computed styles, where `var()` chains are already
+ * substituted, so `--accent: var(--brand)` and
+ * `--muted: color-mix(in oklab, var(--brand), white)` resolve like literal
+ * colors. The sRGB value is set inline wherever a property's value differs
+ * from the parent's: on the root for everything inherited from `:root`, and
+ * on each element where a scoped declaration redefines it.
+ */
+export function resolveCustomPropertyColors(root: HTMLElement): void {
+  if (!root.isConnected) return;
+
+  const names = collectCustomProperties(root);
+  if (names.size === 0) return;
+
+  const elements = [root, ...Array.from(root.querySelectorAll<HTMLElement | SVGElement>('*'))];
+  const computed = new Map<Element, CSSStyleDeclaration>();
+  const getComputed = (element: Element) => {
+    let style = computed.get(element);
+    if (!style) {
+      style = window.getComputedStyle(element);
+      computed.set(element, style);
+    }
+    return style;
+  };
+
+  // Read everything before writing, so each write doesn't force a style recalculation
+  const updates: Array<[HTMLElement | SVGElement, string, string]> = [];
+  elements.forEach((element) => {
+    const style = getComputed(element);
+    const parent = element === root ? null : element.parentElement;
+
+    names.forEach((name) => {
+      const value = style.getPropertyValue(name).trim();
+      if (!value || !hasModernColor(value)) return;
+      if (parent && getComputed(parent).getPropertyValue(name).trim() === value) return;
+
+      const converted = convertModernColorsInCSS(value);
+      if (converted !== value) updates.push([element, name, converted]);
+    });
+  });
+
+  updates.forEach(([element, name, value]) => element.style.setProperty(name, value, 'important'));
+}
+
+/**
+ * Convert modern colors in the document's stylesheets, in place
+ *
+ * Declarations are rewritten where they are, custom properties included, so
+ * the cascade is unchanged. Cross-origin stylesheets cannot be read and are
+ * skipped.
+ *
+ * @returns A function that restores the original declarations
+ */
+export function convertModernColorsInStylesheets(doc: Document = document): () => void {
+  const changes: Array<{ style: CSSStyleDeclaration; property: string; value: string; priority: string }> = [];
+
+  forEachStyleDeclaration(doc, (style) => {
+    Array.from(style).forEach((property) => {
+      const value = style.getPropertyValue(property);
+      if (!hasModernColor(value)) return;
+
+      const converted = convertModernColorsInCSS(value);
+      if (converted === value) return;
+
+      const priority = style.getPropertyPriority(property);
+      changes.push({ style, property, value, priority });
+      style.setProperty(property, converted, priority);
+    });
+  });
+
+  return () => {
+    changes.reverse().forEach(({ style, property, value, priority }) => {
+      style.setProperty(property, value, priority);
+    });
+  };
+}
+
+/**
+ * Call `fn` with the declarations of every readable rule in the document's
+ * stylesheets, nested rules included
+ * @internal
+ */
+function forEachStyleDeclaration(doc: Document, fn: (style: CSSStyleDeclaration) => void): void {
+  const visit = (rules: CSSRuleList) => {
+    Array.from(rules).forEach((rule) => {
+      const { style } = rule as CSSRule & { style?: CSSStyleDeclaration };
+      if (style) fn(style);
+
+      const { cssRules } = rule as CSSRule & { cssRules?: CSSRuleList };
+      if (cssRules) visit(cssRules);
+    });
+  };
+
+  [...Array.from(doc.styleSheets), ...(doc.adoptedStyleSheets || [])].forEach((sheet) => {
+    try {
+      visit(sheet.cssRules);
+    } catch {
+      // Cross-origin stylesheet
+    }
+  });
+}
+
+/**
+ * Names of the custom properties that can apply to an element's subtree
+ *
+ * Computed styles list the properties in effect on the root; stylesheets and
+ * inline styles add those only declared further down.
+ * @internal
+ */
+function collectCustomProperties(root: HTMLElement): Set<string> {
+  const names = new Set<string>();
+  const add = (style: CSSStyleDeclaration) => {
+    Array.from(style).forEach((property) => {
+      if (property.startsWith('--')) names.add(property);
+    });
+  };
+
+  add(window.getComputedStyle(root));
+  forEachStyleDeclaration(root.ownerDocument, add);
+  [root, ...Array.from(root.querySelectorAll<HTMLElement | SVGElement>('[style]'))].forEach((element) => {
+    add(element.style);
+  });
+
+  return names;
+}
+
+/**
+ * @internal
+ */
+function parseColorToken(token: Token): CSSColor | null {
+  switch (token.type) {
+    case 'hash':
+      return parseHex(token.value);
+    case 'ident':
+      return parseNamedColor(token.value);
+    case 'function':
+      if (token.name === 'color-mix') return parseColorMix(token.body);
+      if (token.name === 'color' || COLOR_FUNCTIONS[token.name]) return parseColorFunction(token.name, token.body);
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * @internal
+ */
+function parseHex(hex: string): CSSColor | null {
+  if (!/^[\da-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null;
+
+  const digits = hex.length <= 4 ? hex.split('').map((digit) => digit + digit) : hex.match(/../g)!;
+  const [r, g, b, a = 'ff'] = digits;
+  const channel = (pair: string) => parseInt(pair, 16) / 255;
+
+  return { space: 'srgb', coords: [channel(r), channel(g), channel(b)], alpha: channel(a) };
+}
+
+/**
+ * @internal
+ */
+function parseNamedColor(name: string): CSSColor | null {
+  const lower = name.toLowerCase();
+  if (lower === 'transparent') return { space: 'srgb', coords: [0, 0, 0], alpha: 0 };
+
+  if (!namedColors) {
+    namedColors = new Map(NAMED_COLOR_LIST.split(',').map((entry) => entry.split(':') as [string, string]));
+  }
+
+  const hex = namedColors.get(lower);
+  return hex ? parseHex(hex) : null;
+}
+
+/**
+ * Parse the body of `rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`, `oklab()`,
+ * `oklch()` or `color()`, in absolute or relative syntax
+ * @internal
+ */
+function parseColorFunction(name: string, body: string): CSSColor | null {
+  let tokens = tokenize(body);
+  if (!tokens) return null;
+
+  let origin: CSSColor | null = null;
+  if (isIdent(tokens[0], 'from')) {
+    origin = tokens[1] ? parseColorToken(tokens[1]) : null;
+    if (!origin) return null;
+    tokens = tokens.slice(2);
+  }
+
+  let definition = COLOR_FUNCTIONS[name];
+  if (name === 'color') {
+    const first = tokens[0];
+    const space = first && first.type === 'ident' ? PREDEFINED_SPACES[first.value.toLowerCase()] : undefined;
+    if (!space) return null;
+
+    const names = space.startsWith('xyz') ? ['x', 'y', 'z'] : ['r', 'g', 'b'];
+    definition = { space, channels: names.map((channel) => ({ name: channel, reference: 1 })), scale: 1 };
+    tokens = tokens.slice(1);
+  }
+
+  const components = splitComponents(tokens);
+  if (!components) return null;
+
+  const { space, channels, scale } = definition;
+  const keywords: Record<string, number> = {};
+  if (origin) {
+    convert(origin, space).forEach((coord, index) => {
+      keywords[channels[index].name] = (Number.isNaN(coord) ? 0 : coord) * scale;
+    });
+    keywords.alpha = origin.alpha;
+  }
+
+  const values = components.channels.map((token, index) => resolveComponent(token, channels[index], keywords));
+  const alpha = components.alpha
+    ? resolveComponent(components.alpha, ALPHA_CHANNEL, keywords)
+    : origin ? origin.alpha : 1;
+  if (values.some((value) => value === null) || alpha === null) return null;
+
+  const coords = values.map((value, index) => clampChannel(value as number, channels[index]) / scale) as Vector;
+  return { space, coords, alpha: clampChannel(alpha, ALPHA_CHANNEL) };
+}
+
+/**
+ * Parse the body of `color-mix()`
+ * @internal
+ */
+function parseColorMix(body: string): CSSColor | null {
+  const tokens = tokenize(body);
+  if (!tokens) return null;
+
+  const parts = splitOnCommas(tokens);
+  let space: CSSColorSpace = 'oklab';
+  let hueMethod = 'shorter';
+
+  if (isIdent(parts[0]?.[0], 'in')) {
+    const [, spaceToken, methodToken, hueToken, ...rest] = parts.shift()!;
+    const named = spaceToken && spaceToken.type === 'ident' ? MIX_SPACES[spaceToken.value.toLowerCase()] : undefined;
+    if (!named || rest.length) return null;
+    space = named;
+
+    if (methodToken) {
+      if (methodToken.type !== 'ident' || !isIdent(hueToken, 'hue') || HUE_INDEX[space] === undefined) return null;
+      hueMethod = methodToken.value.toLowerCase();
+      if (!['shorter', 'longer', 'increasing', 'decreasing'].includes(hueMethod)) return null;
+    }
+  }
+
+  if (parts.length !== 2) return null;
+
+  const stops = parts.map((part) => {
+    const colorToken = part.find((token) => !(token.type === 'number' && token.unit === '%'));
+    const percentToken = part.find((token) => token.type === 'number' && token.unit === '%');
+    if (!colorToken || part.length > (percentToken ? 2 : 1)) return null;
+
+    const color = parseColorToken(colorToken);
+    const percentage = percentToken && percentToken.type === 'number' ? percentToken.value / 100 : undefined;
+    if (!color || (percentage !== undefined && (percentage < 0 || percentage > 1))) return null;
+    return { color, percentage };
+  });
+  if (!stops[0] || !stops[1]) return null;
+
+  let p1 = stops[0].percentage;
+  let p2 = stops[1].percentage;
+  if (p1 === undefined && p2 === undefined) {
+    p1 = p2 = 0.5;
+  } else if (p1 === undefined) {
+    p1 = 1 - p2!;
+  } else if (p2 === undefined) {
+    p2 = 1 - p1;
+  }
+
+  const sum = p1 + p2!;
+  if (sum <= 0) return null;
+
+  const mixed = interpolate(stops[0].color, stops[1].color, p2! / sum, space, hueMethod);
+  mixed.alpha *= Math.min(sum, 1);
+  return mixed;
+}
+
+/**
+ * Interpolate between two colors in a space, with premultiplied alpha
+ * @internal
+ */
+function interpolate(from: CSSColor, to: CSSColor, progress: number, space: CSSColorSpace, hueMethod: string): CSSColor {
+  const a = convert(from, space);
+  const b = convert(to, space);
+  const hueIndex = HUE_INDEX[space];
+
+  // A component missing on one side takes the other side's value
+  for (let i = 0; i < 3; i++) {
+    if (Number.isNaN(a[i])) a[i] = b[i];
+    if (Number.isNaN(b[i])) b[i] = a[i];
+  }
+
+  if (hueIndex !== undefined && !Number.isNaN(a[hueIndex])) {
+    const delta = b[hueIndex] - a[hueIndex];
+    if (hueMethod === 'shorter') {
+      if (delta > 180) a[hueIndex] += 360;
+      else if (delta < -180) b[hueIndex] += 360;
+    } else if (hueMethod === 'longer') {
+      if (delta > 0 && delta < 180) a[hueIndex] += 360;
+      else if (delta > -180 && delta <= 0) b[hueIndex] += 360;
+    } else if (hueMethod === 'increasing') {
+      if (delta < 0) b[hueIndex] += 360;
+    } else if (delta > 0) {
+      a[hueIndex] += 360;
+    }
+  }
+
+  const alphaA = Number.isNaN(from.alpha) ? to.alpha : from.alpha;
+  const alphaB = Number.isNaN(to.alpha) ? from.alpha : to.alpha;
+  const alpha = alphaA + (alphaB - alphaA) * progress;
+
+  const coords = a.map((start, i) => {
+    if (i === hueIndex) {
+      const hue = start + (b[i] - start) * progress;
+      return Number.isNaN(hue) ? hue : ((hue % 360) + 360) % 360;
+    }
+    const mixed = start * alphaA + (b[i] * alphaB - start * alphaA) * progress;
+    return alpha === 0 ? mixed : mixed / alpha;
+  }) as Vector;
+
+  return { space, coords, alpha };
+}
+
+/**
+ * Split function arguments into three channels and an optional alpha
+ *
+ * Accepts both the modern syntax (`1 2 3 / 0.5`) and the legacy
+ * comma-separated one (`1, 2, 3, 0.5`).
+ * @internal
+ */
+function splitComponents(tokens: Token[]): { channels: Token[]; alpha?: Token } | null {
+  const slash = tokens.findIndex((token) => token.type === 'delim' && token.value === '/');
+  const values = (slash >= 0 ? tokens.slice(0, slash) : tokens).filter((token) => !isDelim(token, ','));
+  const hasCommas = values.length !== (slash >= 0 ? slash : tokens.length);
+
+  if (slash >= 0) {
+    const alpha = tokens.slice(slash + 1);
+    return values.length === 3 && alpha.length === 1 ? { channels: values, alpha: alpha[0] } : null;
+  }
+  if (hasCommas && values.length === 4) return { channels: values.slice(0, 3), alpha: values[3] };
+  return values.length === 3 ? { channels: values } : null;
+}
+
+/**
+ * Resolve a channel or alpha token to a number in the channel's units
+ *
+ * @returns NaN for `none`, null when the token is not valid here
+ * @internal
+ */
+function resolveComponent(token: Token, channel: Channel, keywords: Record<string, number>): number | null {
+  if (token.type === 'ident' && token.value.toLowerCase() === 'none') return NaN;
+  if (token.type === 'function' && ['calc', 'min', 'max', 'clamp'].includes(token.name)) {
+    return evaluateMath(token, channel, keywords);
+  }
+  return resolveValue(token, channel, keywords);
+}
+
+/**
+ * @internal
+ */
+function resolveValue(token: Token, channel: Channel, keywords: Record<string, number>): number | null {
+  if (token.type === 'ident') {
+    const name = token.value.toLowerCase();
+    if (name in keywords) return keywords[name];
+    if (name === 'pi') return Math.PI;
+    if (name === 'e') return Math.E;
+    return null;
+  }
+
+  if (token.type !== 'number') return null;
+
+  switch (token.unit) {
+    case '':
+      return token.value;
+    case '%':
+      return (token.value / 100) * channel.reference;
+    case 'deg':
+      return channel.hue ? token.value : null;
+    case 'rad':
+      return channel.hue ? (token.value * 180) / Math.PI : null;
+    case 'grad':
+      return channel.hue ? token.value * 0.9 : null;
+    case 'turn':
+      return channel.hue ? token.value * 360 : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate `calc()`, `min()`, `max()`, `clamp()` or a parenthesized expression
+ * @internal
+ */
+function evaluateMath(token: Token, channel: Channel, keywords: Record<string, number>): number | null {
+  if (token.type !== 'function') return resolveValue(token, channel, keywords);
+
+  const tokens = tokenize(token.body);
+  if (!tokens) return null;
+
+  if (token.name === 'calc' || token.name === '') {
+    return evaluateExpression(tokens, channel, keywords);
+  }
+
+  const args = splitOnCommas(tokens).map((arg) => evaluateExpression(arg, channel, keywords));
+  if (args.length === 0 || args.some((arg) => arg === null)) return null;
+
+  const values = args as number[];
+  if (token.name === 'min') return Math.min(...values);
+  if (token.name === 'max') return Math.max(...values);
+  if (token.name === 'clamp' && values.length === 3) return Math.max(values[0], Math.min(values[1], values[2]));
+  return null;
+}
+
+/**
+ * Evaluate a sum of products of values
+ * @internal
+ */
+function evaluateExpression(tokens: Token[], channel: Channel, keywords: Record<string, number>): number | null {
+  let position = 0;
+
+  const factor = (): number | null => {
+    const token = tokens[position++];
+    if (!token) return null;
+    if (token.type === 'function') return evaluateMath(token, channel, keywords);
+    return resolveValue(token, channel, keywords);
+  };
+
+  const term = (): number | null => {
+    let value = factor();
+    while (value !== null && (isDelim(tokens[position], '*') || isDelim(tokens[position], '/'))) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const right = factor();
+      if (right === null) return null;
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  let value = term();
+  while (value !== null && (isDelim(tokens[position], '+') || isDelim(tokens[position], '-'))) {
+    const operator = (tokens[position++] as { value: string }).value;
+    const right = term();
+    if (right === null) return null;
+    value = operator === '+' ? value + right : value - right;
+  }
+
+  return position === tokens.length ? value : null;
+}
+
+/**
+ * @internal
+ */
+function clampChannel(value: number, channel: Channel): number {
+  if (Number.isNaN(value)) return value;
+  if (channel.min !== undefined && value < channel.min) return channel.min;
+  if (channel.max !== undefined && value > channel.max) return channel.max;
+  return value;
+}
+
+/**
+ * Express a color in another space
+ * @internal
+ */
+function convert(color: CSSColor, space: CSSColorSpace): Vector {
+  if (color.space === space) return [...color.coords];
+
+  // hsl() and hwb() are sRGB; skipping XYZ keeps their channels exact
+  if (space === 'srgb' && (color.space === 'hsl' || color.space === 'hwb')) {
+    const coords = color.coords.map((coord) => (Number.isNaN(coord) ? 0 : coord)) as Vector;
+    return color.space === 'hsl' ? hslToSRGB(coords) : hwbToSRGB(coords);
+  }
+
+  return fromXYZ(toXYZ(color), space);
+}
+
+/**
+ * Convert a color to D65 XYZ
+ * @internal
+ */
+function toXYZ({ space, coords }: CSSColor): Vector {
+  const [a, b, c] = coords.map((coord) => (Number.isNaN(coord) ? 0 : coord)) as Vector;
+
+  switch (space) {
+    case 'srgb':
+      return multiply(SRGB_TO_XYZ, mapVector([a, b, c], srgbToLinear));
+    case 'srgb-linear':
+      return multiply(SRGB_TO_XYZ, [a, b, c]);
+    case 'display-p3':
+      return multiply(P3_TO_XYZ, mapVector([a, b, c], srgbToLinear));
+    case 'a98-rgb':
+      return multiply(A98_TO_XYZ, mapVector([a, b, c], (v) => Math.sign(v) * Math.pow(Math.abs(v), 563 / 256)));
+    case 'prophoto-rgb':
+      return multiply(D50_TO_D65, multiply(PROPHOTO_TO_XYZ_D50, mapVector([a, b, c], prophotoToLinear)));
+    case 'rec2020':
+      return multiply(REC2020_TO_XYZ, mapVector([a, b, c], rec2020ToLinear));
+    case 'xyz-d50':
+      return multiply(D50_TO_D65, [a, b, c]);
+    case 'xyz-d65':
+      return [a, b, c];
+    case 'lab':
+      return multiply(D50_TO_D65, labToXYZD50([a, b, c]));
+    case 'lch':
+      return multiply(D50_TO_D65, labToXYZD50(polarToRect([a, b, c])));
+    case 'oklab':
+      return multiply(LMS_TO_XYZ, mapVector(multiply(OKLAB_TO_LMS, [a, b, c]), (v) => v * v * v));
+    case 'oklch':
+      return multiply(LMS_TO_XYZ, mapVector(multiply(OKLAB_TO_LMS, polarToRect([a, b, c])), (v) => v * v * v));
+    case 'hsl':
+      return toXYZ({ space: 'srgb', coords: hslToSRGB([a, b, c]), alpha: 1 });
+    case 'hwb':
+      return toXYZ({ space: 'srgb', coords: hwbToSRGB([a, b, c]), alpha: 1 });
+  }
+}
+
+/**
+ * Convert D65 XYZ to a space; hues of achromatic colors are missing (NaN)
+ * @internal
+ */
+function fromXYZ(xyz: Vector, space: CSSColorSpace): Vector {
+  switch (space) {
+    case 'srgb':
+      return mapVector(multiply(XYZ_TO_SRGB, xyz), linearToSRGB);
+    case 'srgb-linear':
+      return multiply(XYZ_TO_SRGB, xyz);
+    case 'display-p3':
+      return mapVector(multiply(XYZ_TO_P3, xyz), linearToSRGB);
+    case 'a98-rgb':
+      return mapVector(multiply(XYZ_TO_A98, xyz), (v) => Math.sign(v) * Math.pow(Math.abs(v), 256 / 563));
+    case 'prophoto-rgb':
+      return mapVector(multiply(XYZ_D50_TO_PROPHOTO, multiply(D65_TO_D50, xyz)), linearToProphoto);
+    case 'rec2020':
+      return mapVector(multiply(XYZ_TO_REC2020, xyz), linearToRec2020);
+    case 'xyz-d50':
+      return multiply(D65_TO_D50, xyz);
+    case 'xyz-d65':
+      return [...xyz];
+    case 'lab':
+      return xyzD50ToLab(multiply(D65_TO_D50, xyz));
+    case 'lch':
+      return rectToPolar(xyzD50ToLab(multiply(D65_TO_D50, xyz)), 0.0015);
+    case 'oklab':
+      return multiply(LMS_TO_OKLAB, mapVector(multiply(XYZ_TO_LMS, xyz), Math.cbrt));
+    case 'oklch':
+      return rectToPolar(multiply(LMS_TO_OKLAB, mapVector(multiply(XYZ_TO_LMS, xyz), Math.cbrt)), 0.000004);
+    case 'hsl':
+      return srgbToHSL(fromXYZ(xyz, 'srgb'));
+    case 'hwb':
+      return srgbToHWB(fromXYZ(xyz, 'srgb'));
+  }
+}
+
+/**
+ * @internal
+ */
+function multiply(matrix: Matrix, [x, y, z]: Vector): Vector {
+  return matrix.map((row) => row[0] * x + row[1] * y + row[2] * z) as Vector;
+}
+
+/**
+ * @internal
+ */
+function mapVector(vector: Vector, fn: (value: number) => number): Vector {
+  return [fn(vector[0]), fn(vector[1]), fn(vector[2])];
+}
+
+/**
+ * @internal
+ */
+function srgbToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * @internal
+ */
+function linearToSRGB(value: number): number {
+  const abs = Math.abs(value);
+  return abs > 0.0031308 ? Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055) : 12.92 * value;
+}
+
+/**
+ * @internal
+ */
+function prophotoToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 16 / 512 ? value / 16 : Math.sign(value) * Math.pow(abs, 1.8);
+}
+
+/**
+ * @internal
+ */
+function linearToProphoto(value: number): number {
+  const abs = Math.abs(value);
+  return abs >= 1 / 512 ? Math.sign(value) * Math.pow(abs, 1 / 1.8) : 16 * value;
+}
+
+/**
+ * @internal
+ */
+function rec2020ToLinear(value: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(value);
+  return abs < beta * 4.5 ? value / 4.5 : Math.sign(value) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+}
+
+/**
+ * @internal
+ */
+function linearToRec2020(value: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(value);
+  return abs > beta ? Math.sign(value) * (alpha * Math.pow(abs, 0.45) - (alpha - 1)) : 4.5 * value;
+}
+
+/**
+ * @internal
+ */
+function labToXYZD50([lightness, a, b]: Vector): Vector {
+  const fy = (lightness + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const x = fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA;
+  const y = lightness > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : lightness / LAB_KAPPA;
+  const z = fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+/**
+ * @internal
+ */
+function xyzD50ToLab(xyz: Vector): Vector {
+  const [fx, fy, fz] = xyz.map((value, index) => {
+    const relative = value / D50_WHITE[index];
+    return relative > LAB_EPSILON ? Math.cbrt(relative) : (LAB_KAPPA * relative + 16) / 116;
+  });
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Lab-like coordinates to LCh-like; the hue is missing below the chroma threshold
+ * @internal
+ */
+function rectToPolar([lightness, a, b]: Vector, achromatic: number): Vector {
+  const chroma = Math.hypot(a, b);
+  const hue = chroma < achromatic ? NaN : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  return [lightness, chroma, hue];
+}
+
+/**
+ * OKLCH coordinates of an OKLab or OKLCH color, without converting through XYZ
+ * @internal
+ */
+function toOKLCH({ space, coords }: CSSColor): Vector {
+  const values = coords.map((coord) => (Number.isNaN(coord) ? 0 : coord)) as Vector;
+  return space === 'oklch' ? values : rectToPolar(values, 0.000004);
+}
+
+/**
+ * @internal
+ */
+function polarToRect([lightness, chroma, hue]: Vector): Vector {
+  const radians = ((Number.isNaN(hue) ? 0 : hue) * Math.PI) / 180;
+  return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+/**
+ * @internal
+ */
+function hslToSRGB([hue, saturation, lightness]: Vector): Vector {
+  const h = ((hue % 360) + 360) % 360;
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const amount = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * @internal
+ */
+function srgbToHSL([r, g, b]: Vector): Vector {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  let hue = NaN;
+  let saturation = 0;
+
+  if (delta > 1e-7) {
+    saturation = lightness === 0 || lightness === 1 ? 0 : (max - lightness) / Math.min(lightness, 1 - lightness);
+    if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue *= 60;
+  }
+
+  if (saturation < 0) {
+    hue += 180;
+    saturation = Math.abs(saturation);
+  }
+
+  return [Number.isNaN(hue) ? hue : hue % 360, saturation * 100, lightness * 100];
+}
+
+/**
+ * @internal
+ */
+function hwbToSRGB([hue, whiteness, blackness]: Vector): Vector {
+  const w = whiteness / 100;
+  const b = blackness / 100;
+
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+
+  return mapVector(hslToSRGB([hue, 100, 50]), (value) => value * (1 - w - b) + w);
+}
+
+/**
+ * @internal
+ */
+function srgbToHWB(rgb: Vector): Vector {
+  const [hue] = srgbToHSL(rgb);
+  return [hue, Math.min(...rgb) * 100, (1 - Math.max(...rgb)) * 100];
+}
+
+/**
+ * Whether sRGB coordinates are displayable, within rounding error
+ * @internal
+ */
+function isInGamut(rgb: Vector): boolean {
+  return rgb.every((value) => value >= -0.000075 && value <= 1.000075);
+}
+
+/**
+ * @internal
+ */
+function clip(rgb: Vector): Vector {
+  return mapVector(rgb, (value) => Math.max(0, Math.min(1, value)));
+}
+
+/**
+ * Index of the parenthesis closing the one at `open`, or -1
+ * @internal
+ */
+function findClosingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Split a component value into tokens; functions keep their raw body
+ *
+ * @returns null on unbalanced parentheses
+ * @internal
+ */
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(rest);
+    if (number) {
+      const unit = /^(%|[a-z]+)/i.exec(rest.slice(number[0].length));
+      tokens.push({ type: 'number', value: parseFloat(number[0]), unit: unit ? unit[0].toLowerCase() : '' });
+      i += number[0].length + (unit ? unit[0].length : 0);
+      continue;
+    }
+
+    const ident = /^-?[a-z_][\w-]*|^--[\w-]*/i.exec(rest);
+    if (ident || char === '(') {
+      const name = ident ? ident[0] : '';
+      const open = i + name.length;
+
+      if (text[open] === '(') {
+        const close = findClosingParen(text, open);
+        if (close < 0) return null;
+        tokens.push({ type: 'function', name: name.toLowerCase(), body: text.slice(open + 1, close) });
+        i = close + 1;
+      } else {
+        tokens.push({ type: 'ident', value: name });
+        i = open;
+      }
+      continue;
+    }
+
+    if (char === '#') {
+      const hash = /^#([\w-]*)/.exec(rest)!;
+      tokens.push({ type: 'hash', value: hash[1] });
+      i += hash[0].length;
+      continue;
+    }
+
+    if (char === ')') return null;
+
+    tokens.push({ type: 'delim', value: char });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * @internal
+ */
+function splitOnCommas(tokens: Token[]): Token[][] {
+  const parts: Token[][] = [[]];
+  tokens.forEach((token) => {
+    if (isDelim(token, ',')) parts.push([]);
+    else parts[parts.length - 1].push(token);
+  });
+  return parts;
+}
+
+/**
+ * @internal
+ */
+function isIdent(token: Token | undefined, value: string): boolean {
+  return !!token && token.type === 'ident' && token.value.toLowerCase() === value;
+}
+
+/**
+ * @internal
+ */
+function isDelim(token: Token | undefined, value: string): boolean {
+  return !!token && token.type === 'delim' && token.value === value;
+}
@@ -0,0 +1,541 @@
+/**
+ * PDF Generator Library - E-Invoice Handler
+ *
+ * Factur-X / ZUGFeRD hybrid invoices: UN/CEFACT CII XML, profile validation
+ * and the Factur-X XMP extension schema
+ */
+
+import type {
+  EInvoiceData,
+  EInvoiceLine,
+  EInvoiceOptions,
+  EInvoiceParty,
+  EInvoiceProfile,
+  EInvoiceValidationIssue,
+  EInvoiceVATCategory,
+  PDFAttachment,
+} from './types';
+import { escapeXML } from './pdfa-handler';
+
+/** File name Factur-X and ZUGFeRD readers look for */
+export const FACTURX_FILENAME = 'factur-x.xml';
+
+/** Factur-X XMP namespace */
+const FACTURX_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+
+/** Specification identifier (BT-24) per profile */
+const GUIDELINE_IDS: Record<EInvoiceProfile, string> = {
+  MINIMUM: 'urn:factur-x.eu:1p0:minimum',
+  BASIC: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic',
+  EN16931: 'urn:cen.eu:en16931:2017',
+};
+
+/** `fx:ConformanceLevel` value per profile */
+const CONFORMANCE_LEVELS: Record<EInvoiceProfile, string> = {
+  MINIMUM: 'MINIMUM',
+  BASIC: 'BASIC',
+  EN16931: 'EN 16931',
+};
+
+/** Document type codes (UNTDID 1001) accepted by Factur-X */
+const DOCUMENT_TYPE_CODES = ['380', '381', '384', '389', '751'];
+
+/** VAT categories that must state an exemption reason, with their rule prefix */
+const EXEMPT_CATEGORIES: Partial<Record<EInvoiceVATCategory, string>> = {
+  E: 'BR-E',
+  AE: 'BR-AE',
+  K: 'BR-IC',
+  G: 'BR-G',
+  O: 'BR-O',
+};
+
+/** Payment means codes for credit transfers, which need an account (BR-61) */
+const CREDIT_TRANSFER_CODES = ['30', '58'];
+
+/**
+ * Amounts derived from the invoice lines
+ */
+interface EInvoiceTotals {
+  lineNets: number[];
+  vatBreakdown: Array<{ category: EInvoiceVATCategory; rate: number; basis: number; tax: number }>;
+  lineTotal: number;
+  taxTotal: number;
+  grandTotal: number;
+  duePayable: number;
+}
+
+/**
+ * Check invoice data against the business rules of a profile
+ *
+ * MINIMUM covers the document header, parties and totals; BASIC and EN16931
+ * add addresses, lines, the VAT breakdown and payment rules of EN 16931.
+ * Rule identifiers follow EN 16931 where one exists.
+ *
+ * @returns One issue per broken rule (empty when the data is valid)
+ */
+export function validateEInvoice(invoice: EInvoiceData, profile: EInvoiceProfile): EInvoiceValidationIssue[] {
+  const issues: EInvoiceValidationIssue[] = [];
+  const report = (rule: string, path: string, message: string) => issues.push({ rule, path, message });
+  const full = profile !== 'MINIMUM';
+
+  if (!GUIDELINE_IDS[profile]) report('BR-01', 'profile', `Unknown profile "${profile}"`);
+  if (!invoice.number?.trim()) report('BR-02', 'number', 'Invoice number is required');
+  if (!isValidDate(invoice.issueDate)) report('BR-03', 'issueDate', 'Issue date is required');
+  if (invoice.typeCode && !DOCUMENT_TYPE_CODES.includes(invoice.typeCode)) {
+    report('BR-04', 'typeCode', `Document type must be one of ${DOCUMENT_TYPE_CODES.join(', ')}`);
+  }
+  if (!/^[A-Z]{3}$/.test(invoice.currency || '')) {
+    report('BR-05', 'currency', 'Currency must be an ISO 4217 code');
+  }
+
+  if (!invoice.seller?.name?.trim()) report('BR-06', 'seller.name', 'Seller name is required');
+  if (!invoice.buyer?.name?.trim()) report('BR-07', 'buyer.name', 'Buyer name is required');
+  if (!/^[A-Z]{2}$/.test(invoice.seller?.address?.countryCode || '')) {
+    report('BR-09', 'seller.address.countryCode', 'Seller country must be an ISO 3166-1 alpha-2 code');
+  }
+  // MINIMUM has no place for the tax number
+  if (!invoice.seller?.vatId && !(full && invoice.seller?.taxNumber) && !invoice.seller?.legalId) {
+    report('BR-CO-26', 'seller', 'Seller needs a VAT identifier, tax number or legal registration identifier');
+  }
+
+  ([['dueDate', 'BT-9'], ['deliveryDate', 'BT-72']] as const).forEach(([key, term]) => {
+    if (invoice[key] !== undefined && !isValidDate(invoice[key])) report(term, key, 'Not a valid date');
+  });
+
+  if (!invoice.lines?.length) {
+    report('BR-16', 'lines', 'At least one invoice line is required');
+    return issues;
+  }
+
+  invoice.lines.forEach((line, index) => {
+    const path = `lines[${index}]`;
+    if (!line.name?.trim()) report('BR-25', `${path}.name`, 'Item name is required');
+    if (!Number.isFinite(line.quantity)) report('BR-22', `${path}.quantity`, 'Quantity is required');
+    if (!Number.isFinite(line.unitPrice)) {
+      report('BR-26', `${path}.unitPrice`, 'Net price is required');
+    } else if (line.unitPrice < 0) {
+      report('BR-27', `${path}.unitPrice`, 'Net price must not be negative');
+    }
+    if (!Number.isFinite(line.vatRate) || line.vatRate < 0) {
+      report('BR-CO-04', `${path}.vatRate`, 'VAT rate is required');
+    }
+  });
+
+  if (invoice.prepaidAmount !== undefined && !Number.isFinite(invoice.prepaidAmount)) {
+    report('BT-113', 'prepaidAmount', 'Prepaid amount must be a number');
+  }
+
+  if (!full) return issues;
+
+  (['seller', 'buyer'] as const).forEach((role) => {
+    if (!invoice[role]?.address) {
+      report(role === 'seller' ? 'BR-08' : 'BR-10', `${role}.address`, `${capitalize(role)} postal address is required`);
+    }
+  });
+  if (invoice.buyer?.address && !/^[A-Z]{2}$/.test(invoice.buyer.address.countryCode || '')) {
+    report('BR-11', 'buyer.address.countryCode', 'Buyer country must be an ISO 3166-1 alpha-2 code');
+  }
+
+  const categories = new Set<EInvoiceVATCategory>();
+  invoice.lines.forEach((line, index) => {
+    const category = line.vatCategory || 'S';
+    const path = `lines[${index}].vatRate`;
+    categories.add(category);
+
+    if (category === 'S' && line.vatRate <= 0) {
+      report('BR-S-05', path, 'Standard rated lines need a VAT rate above zero');
+    }
+    if (category !== 'S' && category !== 'L' && category !== 'M' && line.vatRate !== 0) {
+      report(`${EXEMPT_CATEGORIES[category] || 'BR-Z'}-05`, path, `Category ${category} lines must have a VAT rate of 0`);
+    }
+  });
+
+  categories.forEach((category) => {
+    const prefix = EXEMPT_CATEGORIES[category];
+    if (prefix && !invoice.vatExemptionReason?.trim()) {
+      report(`${prefix}-10`, 'vatExemptionReason', `Category ${category} needs an exemption reason`);
+    }
+  });
+
+  const rated = (['S', 'Z', 'E'] as const).find((category) => categories.has(category));
+  if (rated && !invoice.seller?.vatId && !invoice.seller?.taxNumber) {
+    report(`BR-${rated}-02`, 'seller.vatId', `Seller VAT identifier or tax number is required for category ${rated}`);
+  }
+  if (categories.has('AE') || categories.has('K')) {
+    const rule = categories.has('K') ? 'BR-IC-02' : 'BR-AE-02';
+    if (!invoice.seller?.vatId) report(rule, 'seller.vatId', 'Seller VAT identifier is required');
+    if (!invoice.buyer?.vatId) report(rule, 'buyer.vatId', 'Buyer VAT identifier is required');
+  }
+  if (categories.has('G') && !invoice.seller?.vatId) {
+    report('BR-G-02', 'seller.vatId', 'Seller VAT identifier is required for export lines');
+  }
+
+  if (calculateTotals(invoice).duePayable > 0 && !invoice.dueDate && !invoice.paymentTerms?.trim()) {
+    report('BR-CO-25', 'dueDate', 'A due date or payment terms are required when an amount is due');
+  }
+
+  const payment = invoice.payment;
+  if (payment && CREDIT_TRANSFER_CODES.includes(payment.meansCode || '58')) {
+    if (!payment.iban) {
+      report('BR-61', 'payment.iban', 'Credit transfers need the payee account (IBAN)');
+    } else if (!isValidIBAN(payment.iban)) {
+      report('BR-61', 'payment.iban', `"${payment.iban}" is not a valid IBAN`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Generate the Cross Industry Invoice (CII D16B) XML for a profile
+ *
+ * Totals and the VAT breakdown are calculated from the lines. Elements outside
+ * the profile are left out.
+ *
+ * @throws Error listing the broken rules when the data is not valid for the profile
+ */
+export function createFacturXML(invoice: EInvoiceData, profile: EInvoiceProfile): string {
+  const issues = validateEInvoice(invoice, profile);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invoice data is not valid for the ${profile} profile:\n` +
+        issues.map((issue) => `${issue.rule} ${issue.path}: ${issue.message}`).join('\n')
+    );
+  }
+
+  const full = profile !== 'MINIMUM';
+  const totals = calculateTotals(invoice);
+  const currency = invoice.currency;
+  const tag = (name: string, content: string | undefined, attributes = '') =>
+    content === undefined || content === '' ? '' : `<${name}${attributes}>${content}</${name}>`;
+  const text = (name: string, value: string | undefined) => tag(name, value === undefined ? undefined : escapeXML(value));
+  const date = (name: string, value: Date | string | undefined) =>
+    value === undefined ? '' : tag(name, `<udt:DateTimeString format="102">${formatDate(value)}</udt:DateTimeString>`);
+
+  const lines = full
+    ? invoice.lines.map((line, index) => createLineXML(line, index, totals.lineNets[index], profile)).join('')
+    : '';
+
+  const vatBreakdown = full
+    ? totals.vatBreakdown
+        .map((group) =>
+          tag(
+            'ram:ApplicableTradeTax',
+            tag('ram:CalculatedAmount', formatAmount(group.tax)) +
+              '<ram:TypeCode>VAT</ram:TypeCode>' +
+              (EXEMPT_CATEGORIES[group.category] ? text('ram:ExemptionReason', invoice.vatExemptionReason) : '') +
+              tag('ram:BasisAmount', formatAmount(group.basis)) +
+              tag('ram:CategoryCode', group.category) +
+              (group.category === 'O' ? '' : tag('ram:RateApplicablePercent', formatNumber(group.rate)))
+          )
+        )
+        .join('')
+    : '';
+
+  const payment = invoice.payment;
+  const paymentMeans =
+    full && payment
+      ? tag(
+          'ram:SpecifiedTradeSettlementPaymentMeans',
+          tag('ram:TypeCode', payment.meansCode || '58') +
+            tag(
+              'ram:PayeePartyCreditorFinancialAccount',
+              text('ram:IBANID', payment.iban?.replace(/\s+/g, '')) +
+                text('ram:AccountName', payment.accountName)
+            ) +
+            (profile === 'EN16931'
+              ? tag('ram:PayeeSpecifiedCreditorFinancialInstitution', text('ram:BICID', payment.bic))
+              : '')
+        )
+      : '';
+
+  const paymentTerms =
+    full && (invoice.paymentTerms || invoice.dueDate)
+      ? tag('ram:SpecifiedTradePaymentTerms', text('ram:Description', invoice.paymentTerms) + date('ram:DueDateDateTime', invoice.dueDate))
+      : '';
+
+  const summation = tag(
+    'ram:SpecifiedTradeSettlementHeaderMonetarySummation',
+    (full ? tag('ram:LineTotalAmount', formatAmount(totals.lineTotal)) : '') +
+      tag('ram:TaxBasisTotalAmount', formatAmount(totals.lineTotal)) +
+      tag('ram:TaxTotalAmount', formatAmount(totals.taxTotal), ` currencyID="${currency}"`) +
+      tag('ram:GrandTotalAmount', formatAmount(totals.grandTotal)) +
+      (full && invoice.prepaidAmount ? tag('ram:TotalPrepaidAmount', formatAmount(invoice.prepaidAmount)) : '') +
+      tag('ram:DuePayableAmount', formatAmount(totals.duePayable))
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice' +
+      ' xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"' +
+      ' xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100"' +
+      ' xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"' +
+      ' xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">',
+    tag(
+      'rsm:ExchangedDocumentContext',
+      tag('ram:GuidelineSpecifiedDocumentContextParameter', text('ram:ID', GUIDELINE_IDS[profile]))
+    ),
+    tag(
+      'rsm:ExchangedDocument',
+      text('ram:ID', invoice.number) +
+        tag('ram:TypeCode', invoice.typeCode || '380') +
+        date('ram:IssueDateTime', invoice.issueDate) +
+        (full ? (invoice.notes || []).map((note) => tag('ram:IncludedNote', text('ram:Content', note))).join('') : '')
+    ),
+    '<rsm:SupplyChainTradeTransaction>',
+    lines,
+    tag(
+      'ram:ApplicableHeaderTradeAgreement',
+      text('ram:BuyerReference', invoice.buyerReference) +
+        createPartyXML('ram:SellerTradeParty', invoice.seller, profile, true) +
+        createPartyXML('ram:BuyerTradeParty', invoice.buyer, profile, false) +
+        (invoice.orderReference
+          ? tag('ram:BuyerOrderReferencedDocument', text('ram:IssuerAssignedID', invoice.orderReference))
+          : '')
+    ),
+    '<ram:ApplicableHeaderTradeDelivery>' +
+      (full && invoice.deliveryDate
+        ? tag('ram:ActualDeliverySupplyChainEvent', date('ram:OccurrenceDateTime', invoice.deliveryDate))
+        : '') +
+      '</ram:ApplicableHeaderTradeDelivery>',
+    tag(
+      'ram:ApplicableHeaderTradeSettlement',
+      tag('ram:InvoiceCurrencyCode', currency) + paymentMeans + vatBreakdown + paymentTerms + summation
+    ),
+    '</rsm:SupplyChainTradeTransaction>',
+    '</rsm:CrossIndustryInvoice>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Build the `factur-x.xml` attachment for an e-invoice
+ *
+ * MINIMUM invoices are not full invoices and are attached as 'Data'; BASIC
+ * and EN16931 XML is an alternative representation of the PDF ('Alternative').
+ *
+ * @throws Error when the data is not valid for the profile
+ */
+export function createFacturXAttachment({ invoice, profile }: EInvoiceOptions): PDFAttachment {
+  return {
+    name: FACTURX_FILENAME,
+    data: new TextEncoder().encode(createFacturXML(invoice, profile)),
+    mimeType: 'text/xml',
+    description: 'Factur-X invoice',
+    afRelationship: profile === 'MINIMUM' ? 'Data' : 'Alternative',
+  };
+}
+
+/**
+ * XMP rdf:Description elements declaring the Factur-X extension schema and its values
+ */
+export function getFacturXMetadata(profile: EInvoiceProfile): string[] {
+  const property = (name: string, description: string) =>
+    '<rdf:li rdf:parseType="Resource">' +
+    `<pdfaProperty:name>${name}</pdfaProperty:name>` +
+    '<pdfaProperty:valueType>Text</pdfaProperty:valueType>' +
+    '<pdfaProperty:category>external</pdfaProperty:category>' +
+    `<pdfaProperty:description>${description}</pdfaProperty:description>` +
+    '</rdf:li>';
+
+  return [
+    [
+      '<rdf:Description rdf:about=""',
+      ' xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"',
+      ' xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"',
+      ' xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">',
+      '<pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">',
+      '<pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>',
+      `<pdfaSchema:namespaceURI>${FACTURX_NAMESPACE}</pdfaSchema:namespaceURI>`,
+      '<pdfaSchema:prefix>fx</pdfaSchema:prefix>',
+      '<pdfaSchema:property><rdf:Seq>',
+      property('DocumentFileName', 'The name of the embedded XML document'),
+      property('DocumentType', 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER'),
+      property('Version', 'The actual version of the standard applying to the embedded XML document'),
+      property('ConformanceLevel', 'The conformance level of the embedded XML document'),
+      '</rdf:Seq></pdfaSchema:property>',
+      '</rdf:li></rdf:Bag></pdfaExtension:schemas>',
+      '</rdf:Description>',
+    ].join('\n'),
+    [
+      `<rdf:Description rdf:about="" xmlns:fx="${FACTURX_NAMESPACE}">`,
+      '<fx:DocumentType>INVOICE</fx:DocumentType>',
+      `<fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>`,
+      '<fx:Version>1.0</fx:Version>',
+      `<fx:ConformanceLevel>${CONFORMANCE_LEVELS[profile]}</fx:ConformanceLevel>`,
+      '</rdf:Description>',
+    ].join('\n'),
+  ];
+}
+
+/**
+ * @internal
+ */
+function createLineXML(line: EInvoiceLine, index: number, net: number, profile: EInvoiceProfile): string {
+  return [
+    '<ram:IncludedSupplyChainTradeLineItem>',
+    `<ram:AssociatedDocumentLineDocument><ram:LineID>${escapeXML(line.id || String(index + 1))}</ram:LineID></ram:AssociatedDocumentLineDocument>`,
+    '<ram:SpecifiedTradeProduct>',
+    `<ram:Name>${escapeXML(line.name)}</ram:Name>`,
+    profile === 'EN16931' && line.description ? `<ram:Description>${escapeXML(line.description)}</ram:Description>` : '',
+    '</ram:SpecifiedTradeProduct>',
+    '<ram:SpecifiedLineTradeAgreement><ram:NetPriceProductTradePrice>',
+    `<ram:ChargeAmount>${formatNumber(line.unitPrice, 2)}</ram:ChargeAmount>`,
+    '</ram:NetPriceProductTradePrice></ram:SpecifiedLineTradeAgreement>',
+    '<ram:SpecifiedLineTradeDelivery>',
+    `<ram:BilledQuantity unitCode="${escapeXML(line.unitCode || 'C62')}">${formatNumber(line.quantity)}</ram:BilledQuantity>`,
+    '</ram:SpecifiedLineTradeDelivery>',
+    '<ram:SpecifiedLineTradeSettlement>',
+    '<ram:ApplicableTradeTax><ram:TypeCode>VAT</ram:TypeCode>',
+    `<ram:CategoryCode>${line.vatCategory || 'S'}</ram:CategoryCode>`,
+    // Lines not subject to VAT carry no rate (BR-O-05)
+    line.vatCategory === 'O' ? '' : `<ram:RateApplicablePercent>${formatNumber(line.vatRate)}</ram:RateApplicablePercent>`,
+    '</ram:ApplicableTradeTax>',
+    '<ram:SpecifiedTradeSettlementLineMonetarySummation>',
+    `<ram:LineTotalAmount>${formatAmount(net)}</ram:LineTotalAmount>`,
+    '</ram:SpecifiedTradeSettlementLineMonetarySummation>',
+    '</ram:SpecifiedLineTradeSettlement>',
+    '</ram:IncludedSupplyChainTradeLineItem>',
+  ]
+    .filter(Boolean)
+    .join('');
+}
+
+/**
+ * @internal
+ */
+function createPartyXML(name: string, party: EInvoiceParty, profile: EInvoiceProfile, seller: boolean): string {
+  const full = profile !== 'MINIMUM';
+  const address = party.address;
+  const parts = [`<ram:Name>${escapeXML(party.name)}</ram:Name>`];
+
+  if (party.legalId) {
+    parts.push(`<ram:SpecifiedLegalOrganization><ram:ID>${escapeXML(party.legalId)}</ram:ID></ram:SpecifiedLegalOrganization>`);
+  }
+
+  // MINIMUM carries only the seller's country
+  if (address && (full || seller)) {
+    parts.push(
+      '<ram:PostalTradeAddress>' +
+        (full && address.postcode ? `<ram:PostcodeCode>${escapeXML(address.postcode)}</ram:PostcodeCode>` : '') +
+        (full && address.line1 ? `<ram:LineOne>${escapeXML(address.line1)}</ram:LineOne>` : '') +
+        (full && address.line2 ? `<ram:LineTwo>${escapeXML(address.line2)}</ram:LineTwo>` : '') +
+        (full && address.city ? `<ram:CityName>${escapeXML(address.city)}</ram:CityName>` : '') +
+        `<ram:CountryID>${escapeXML(address.countryCode)}</ram:CountryID>` +
+        '</ram:PostalTradeAddress>'
+    );
+  }
+
+  if (full || seller) {
+    if (party.vatId) {
+      parts.push(`<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${escapeXML(party.vatId)}</ram:ID></ram:SpecifiedTaxRegistration>`);
+    }
+    if (seller && full && party.taxNumber) {
+      parts.push(`<ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">${escapeXML(party.taxNumber)}</ram:ID></ram:SpecifiedTaxRegistration>`);
+    }
+  }
+
+  return `<${name}>${parts.join('')}</${name}>`;
+}
+
+/**
+ * Line nets, VAT breakdown per category and rate, and document totals
+ * @internal
+ */
+function calculateTotals(invoice: EInvoiceData): EInvoiceTotals {
+  const lineNets = invoice.lines.map((line) => roundAmount(line.quantity * line.unitPrice));
+  const groups = new Map<string, { category: EInvoiceVATCategory; rate: number; basis: number; tax: number }>();
+
+  invoice.lines.forEach((line, index) => {
+    const category = line.vatCategory || 'S';
+    const key = `${category}:${line.vatRate}`;
+    const group = groups.get(key) || { category, rate: line.vatRate, basis: 0, tax: 0 };
+    group.basis = roundAmount(group.basis + lineNets[index]);
+    groups.set(key, group);
+  });
+
+  const vatBreakdown = Array.from(groups.values()).map((group) => ({
+    ...group,
+    tax: roundAmount((group.basis * group.rate) / 100),
+  }));
+  const lineTotal = roundAmount(lineNets.reduce((sum, net) => sum + net, 0));
+  const taxTotal = roundAmount(vatBreakdown.reduce((sum, group) => sum + group.tax, 0));
+  const grandTotal = roundAmount(lineTotal + taxTotal);
+
+  return {
+    lineNets,
+    vatBreakdown,
+    lineTotal,
+    taxTotal,
+    grandTotal,
+    duePayable: roundAmount(grandTotal - (invoice.prepaidAmount || 0)),
+  };
+}
+
+/**
+ * @internal
+ */
+function roundAmount(value: number): number {
+  return Math.round((value + Math.sign(value) * Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * @internal
+ */
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Decimal without exponent or trailing zeros, keeping at least `minDecimals`
+ * @internal
+ */
+function formatNumber(value: number, minDecimals = 0): string {
+  const fixed = value.toFixed(4).replace(/0+$/, '').replace(/\.$/, '');
+  const decimals = fixed.includes('.') ? fixed.split('.')[1].length : 0;
+  return decimals >= minDecimals ? fixed : value.toFixed(minDecimals);
+}
+
+/**
+ * Format 102 (CCYYMMDD), using the local calendar day of Date objects
+ * @internal
+ */
+function formatDate(value: Date | string): string {
+  if (typeof value === 'string') return value.replace(/-/g, '');
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}`;
+}
+
+/**
+ * @internal
+ */
+function isValidDate(value: Date | string | undefined): boolean {
+  if (value instanceof Date) return !isNaN(value.getTime());
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+/**
+ * ISO 13616 check digits (mod 97)
+ * @internal
+ */
+function isValidIBAN(iban: string): boolean {
+  const normalized = iban.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) return false;
+
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * @internal
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
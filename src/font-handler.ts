@@ -0,0 +1,203 @@
+/**
+ * PDF Generator Library - Font Handler
+ *
+ * Custom font loading and fallback handling for the render container
+ */
+
+import type { FontConfig, FontLoadFailure, FontOptions } from './types';
+import { generateFontFaceCSS, WEB_SAFE_FONT_MAP, createStyleElement } from './utils';
+
+/** Maximum time to wait for a single font face (ms) */
+const FONT_LOAD_TIMEOUT = 10000;
+
+/**
+ * Inject `@font-face` rules for the configured fonts into the render container
+ *
+ * @returns The injected style element, or null when no fonts are configured
+ */
+export function injectFontFaces(container: HTMLElement, fonts: FontConfig[] = []): HTMLStyleElement | null {
+  if (fonts.length === 0) return null;
+
+  const styleElement = createStyleElement(generateFontFaceCSS(fonts), 'pdf-font-faces');
+  container.insertBefore(styleElement, container.firstChild);
+  return styleElement;
+}
+
+/**
+ * Wait until every configured font face has loaded
+ *
+ * A face fails when `document.fonts.load` rejects, matches no face, or does
+ * not settle within the timeout.
+ *
+ * @returns One entry per face that could not be loaded
+ */
+export async function loadFonts(
+  fonts: FontConfig[] = [],
+  timeout: number = FONT_LOAD_TIMEOUT
+): Promise<FontLoadFailure[]> {
+  if (fonts.length === 0) return [];
+
+  if (typeof document === 'undefined' || !document.fonts) {
+    return fonts.map((font) => toFailure(font, 'Font loading API is not available'));
+  }
+
+  const results = await Promise.all(
+    fonts.map(async (font): Promise<FontLoadFailure | null> => {
+      const descriptor = `${font.style || 'normal'} ${font.weight || 400} 16px "${font.family}"`;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      try {
+        const faces = await Promise.race([
+          document.fonts.load(descriptor),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+          }),
+        ]);
+
+        return faces.length > 0 ? null : toFailure(font, 'No matching font face was loaded');
+      } catch (error) {
+        return toFailure(font, error instanceof Error ? error.message : String(error));
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+
+  return results.filter((failure): failure is FontLoadFailure => failure !== null);
+}
+
+/**
+ * Swap families that failed to load for the configured fallback in an element tree
+ *
+ * The fallback is `fallbackFont`, expanded to its web-safe stack when
+ * `useWebSafeFonts` is set. Families are replaced in place, so the rest of
+ * each element's font stack is kept.
+ *
+ * A family is only replaced on elements that would render with a face that
+ * failed: the configured face of that family closest to the element's
+ * computed `font-weight` and `font-style`. A failed bold italic leaves
+ * regular text in the family alone.
+ *
+ * @returns Number of elements whose font-family was rewritten
+ */
+export function applyFontFallback(
+  element: HTMLElement,
+  failures: FontLoadFailure[],
+  options: FontOptions
+): number {
+  if (failures.length === 0) return 0;
+
+  const fallback = getFallbackFontStack(options);
+  if (!fallback) return 0;
+
+  const failedFamilies = new Set(failures.map((failure) => failure.family.toLowerCase()));
+  let replaced = 0;
+
+  [element, ...Array.from(element.querySelectorAll<HTMLElement>('*'))].forEach((el) => {
+    const computed = window.getComputedStyle(el);
+    const weight = parseInt(computed.fontWeight, 10) || 400;
+    const style = computed.fontStyle.startsWith('oblique') ? 'oblique' : computed.fontStyle;
+    const isFailed = (family: string) =>
+      failedFamilies.has(family.toLowerCase()) && usesFailedFace(family, weight, style, failures, options.fonts || []);
+
+    const families = splitFontFamily(computed.fontFamily);
+    if (!families.some(isFailed)) return;
+
+    el.style.fontFamily = families
+      .map((family) => (isFailed(family) ? fallback : quoteFamily(family)))
+      .join(', ');
+    replaced++;
+  });
+
+  return replaced;
+}
+
+/**
+ * Whether text in a family at a weight and style would use a face that failed
+ *
+ * Picks the configured face the browser would match: same style if there is
+ * one (italic and oblique standing in for each other), then the nearest
+ * weight, heavier on a tie for bold requests and lighter otherwise.
+ * @internal
+ */
+function usesFailedFace(
+  family: string,
+  weight: number,
+  style: string,
+  failures: FontLoadFailure[],
+  fonts: FontConfig[]
+): boolean {
+  const name = family.toLowerCase();
+  const isFailedFace = (faceWeight: number, faceStyle: string) =>
+    failures.some(
+      (failure) => failure.family.toLowerCase() === name && failure.weight === faceWeight && failure.style === faceStyle
+    );
+
+  const faces = fonts
+    .filter((font) => font.family.toLowerCase() === name)
+    .map((font) => ({ weight: font.weight || 400, style: font.style || 'normal' }));
+  if (faces.length === 0) return isFailedFace(weight, style);
+
+  const slanted = (value: string) => value !== 'normal';
+  const sameStyle = faces.filter((face) => slanted(face.style) === slanted(style));
+  const candidates = sameStyle.length > 0 ? sameStyle : faces;
+
+  const [face] = candidates.sort((a, b) => {
+    const distance = Math.abs(a.weight - weight) - Math.abs(b.weight - weight);
+    if (distance !== 0) return distance;
+    return weight > 500 ? b.weight - a.weight : a.weight - b.weight;
+  });
+
+  return isFailedFace(face.weight, face.style);
+}
+
+/**
+ * Resolve the font stack used in place of fonts that failed to load
+ * @internal
+ */
+function getFallbackFontStack(options: FontOptions): string | null {
+  const fallback = options.fallbackFont || (options.useWebSafeFonts ? 'Arial' : '');
+  if (!fallback) return null;
+
+  if (options.useWebSafeFonts && WEB_SAFE_FONT_MAP[fallback]) {
+    return WEB_SAFE_FONT_MAP[fallback]
+      .split(',')
+      .map((family) => quoteFamily(family.trim()))
+      .join(', ');
+  }
+
+  return quoteFamily(fallback);
+}
+
+/**
+ * Split a computed font-family value into unquoted family names
+ * @internal
+ */
+function splitFontFamily(value: string): string[] {
+  return value
+    .split(',')
+    .map((family) => family.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Quote a family name unless it is a generic family keyword
+ * @internal
+ */
+function quoteFamily(family: string): string {
+  const generic = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+  return generic.includes(family) ? family : `"${family}"`;
+}
+
+/**
+ * @internal
+ */
+function toFailure(font: FontConfig, reason: string): FontLoadFailure {
+  return {
+    family: font.family,
+    weight: font.weight || 400,
+    style: font.style || 'normal',
+    src: font.src,
+    reason,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { fillPDFForm } from './form-handler';
+
+/** Liberation Sans (covers Cyrillic), as shipped with pdf.js */
+const unicodeFont = readFileSync(
+  createRequire(import.meta.url).resolve('pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf')
+);
+
+/**
+ * Template with a text field, a check box, a radio group and a dropdown
+ */
+async function createTemplate(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([300, 300]);
+  const form = doc.getForm();
+
+  form.createTextField('name').addToPage(page, { x: 20, y: 240, width: 200, height: 24 });
+  form.createCheckBox('agree').addToPage(page, { x: 20, y: 200, width: 16, height: 16 });
+  const size = form.createRadioGroup('size');
+  ['S', 'M', 'L'].forEach((option, index) => {
+    size.addOptionToPage(option, page, { x: 20 + index * 30, y: 160, width: 16, height: 16 });
+  });
+  const country = form.createDropdown('country');
+  country.addOptions(['Germany', 'France']);
+  country.addToPage(page, { x: 20, y: 110, width: 200, height: 24 });
+
+  return doc.save();
+}
+
+/**
+ * Text pdf.js extracts from the first page
+ */
+async function extractText(bytes: Uint8Array): Promise<string> {
+  const doc = await getDocument({ data: bytes.slice(), verbosity: 0 }).promise;
+  const content = await (await doc.getPage(1)).getTextContent();
+  return content.items.map((item) => ('str' in item ? item.str : '')).join(' ');
+}
+
+describe('fillPDFForm', () => {
+  it('fills known fields and reports unknown, unfilled and rejected values', async () => {
+    const { bytes, report } = await fillPDFForm(await createTemplate(), {
+      name: 'Jane Doe',
+      agree: 'yes',
+      size: 'XL',
+      nickname: 'JD',
+    });
+
+    expect(report).toEqual({
+      filled: ['name', 'agree'],
+      unknown: ['nickname'],
+      unfilled: ['country'],
+      rejected: [{ name: 'size', reason: '"XL" is not one of: S, M, L' }],
+      fallbackFont: [],
+      viewerAppearance: [],
+    });
+
+    const form = (await PDFDocument.load(bytes)).getForm();
+    expect(form.getTextField('name').getText()).toBe('Jane Doe');
+    expect(form.getCheckBox('agree').isChecked()).toBe(true);
+    expect(form.getRadioGroup('size').getSelected()).toBeUndefined();
+  });
+
+  it('draws values Helvetica cannot encode with the fallback font', async () => {
+    const { bytes, report } = await fillPDFForm(
+      await createTemplate(),
+      { name: 'Иван Петров', size: 'M', country: 'France' },
+      { flatten: true, fallbackFont: unicodeFont, fontkit }
+    );
+
+    expect(report.fallbackFont).toEqual(['name']);
+    expect(report.viewerAppearance).toEqual([]);
+    expect((await PDFDocument.load(bytes)).getForm().getFields()).toHaveLength(0);
+
+    const text = await extractText(bytes);
+    expect(text).toContain('Иван Петров');
+    expect(text).toContain('France');
+  });
+
+  it('leaves values without a font for the viewer to draw', async () => {
+    const { bytes, report } = await fillPDFForm(await createTemplate(), { name: 'Иван', country: 'Germany' });
+
+    expect(report.viewerAppearance).toEqual(['name']);
+    expect(report.filled).toEqual(['name', 'country']);
+
+    const form = (await PDFDocument.load(bytes)).getForm();
+    expect(form.acroForm.dict.get(PDFName.of('NeedAppearances'))?.toString()).toBe('true');
+    expect(form.getTextField('name').getText()).toBe('Иван');
+  });
+
+  it('refuses to flatten values no font can draw', async () => {
+    await expect(fillPDFForm(await createTemplate(), { name: 'Иван' }, { flatten: true })).rejects.toThrow(
+      'Cannot flatten values Helvetica cannot encode without a fallbackFont: name'
+    );
+  });
+
+  it('requires fontkit with a fallback font', async () => {
+    await expect(fillPDFForm(await createTemplate(), {}, { fallbackFont: unicodeFont })).rejects.toThrow(
+      'fallbackFont requires a fontkit instance'
+    );
+  });
+});
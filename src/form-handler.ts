@@ -0,0 +1,553 @@
+/**
+ * PDF Generator Library - Form Handler
+ *
+ * Interactive AcroForm fields for HTML form controls, and filling of existing
+ * PDF form templates
+ */
+
+import type { PageSlicePlacement } from './types';
+
+/**
+ * A form control measured in the prepared element
+ */
+export interface FormFieldArea {
+  /** Field kind */
+  type: 'text' | 'password' | 'textarea' | 'checkbox' | 'radio' | 'select';
+  /** Field name (from `name`, then `id`, made unique) */
+  name: string;
+  /** Current text, selected option text, or radio option value */
+  value: string;
+  /** Checked state (checkbox, radio) */
+  checked?: boolean;
+  /** Option texts (select) */
+  options?: string[];
+  /** Multi-select list instead of a dropdown (select) */
+  multiple?: boolean;
+  /** `required` attribute */
+  required: boolean;
+  /** `readonly` or `disabled` attribute */
+  readOnly: boolean;
+  /** `maxlength` attribute (text, textarea) */
+  maxLength?: number;
+  /** Computed font size in CSS pixels */
+  fontSize: number;
+  /** Left edge in CSS pixels, relative to the rendered element */
+  x: number;
+  /** Top edge in CSS pixels, relative to the rendered element */
+  y: number;
+  /** Width in CSS pixels */
+  width: number;
+  /** Height in CSS pixels */
+  height: number;
+}
+
+/**
+ * A field placed on a page of the generated document
+ */
+export interface PlacedFormField {
+  /** Measured control */
+  field: FormFieldArea;
+  /** Page number (1-indexed) */
+  pageNumber: number;
+  /** Left edge in mm from the page's left edge */
+  x: number;
+  /** Top edge in mm from the page's top edge */
+  y: number;
+  /** Width in mm */
+  width: number;
+  /** Height in mm */
+  height: number;
+  /** Font size in points */
+  fontSize: number;
+}
+
+/**
+ * Value for a template field: text for text fields, a boolean for check boxes,
+ * the option for radio groups and dropdowns, several options for multi-select lists
+ */
+export type PDFFormValue = string | number | boolean | string[];
+
+/**
+ * Options for filling a PDF form template
+ */
+export interface FillPDFFormOptions {
+  /** Draw the filled values into the page content and remove the form (default: false) */
+  flatten?: boolean;
+  /** TrueType/OpenType font for values Helvetica cannot encode (requires `fontkit`) */
+  fallbackFont?: Uint8Array | ArrayBuffer;
+  /** Fontkit instance (e.g. `@pdf-lib/fontkit`) used to embed `fallbackFont` */
+  fontkit?: Parameters<import('pdf-lib').PDFDocument['registerFontkit']>[0];
+}
+
+/**
+ * Outcome of filling a PDF form template
+ */
+export interface PDFFormFillReport {
+  /** Fields that received a value */
+  filled: string[];
+  /** Value names that match no field in the template */
+  unknown: string[];
+  /** Fillable template fields without a value */
+  unfilled: string[];
+  /** Fields whose value could not be applied */
+  rejected: Array<{ name: string; reason: string }>;
+  /** Fields drawn with the fallback font */
+  fallbackFont: string[];
+  /** Fields left for the viewer to draw (no fallback font, not flattened) */
+  viewerAppearance: string[];
+}
+
+/**
+ * Result of filling a PDF form template
+ */
+export interface FillPDFFormResult {
+  /** Filled PDF bytes */
+  bytes: Uint8Array;
+  /** Which fields were filled, skipped or rejected */
+  report: PDFFormFillReport;
+}
+
+/** Input types written as single-line text fields */
+const TEXT_INPUT_TYPES = ['text', 'email', 'tel', 'url', 'number', 'search', 'password'];
+
+/** Selector for every control that becomes a field */
+const FORM_CONTROL_SELECTOR = [
+  ...TEXT_INPUT_TYPES.map((type) => `input[type="${type}"]`),
+  'input:not([type])',
+  'input[type="checkbox"]',
+  'input[type="radio"]',
+  'select',
+  'textarea',
+].join(', ');
+
+/** Points per millimetre */
+const PT_PER_MM = 72 / 25.4;
+
+/**
+ * Hide the form controls that become fields, keeping their layout
+ *
+ * Must run before rasterizing, so the controls do not show underneath the fields.
+ *
+ * @returns Number of controls hidden
+ */
+export function hideFormControls(element: HTMLElement): number {
+  const controls = getFormControls(element);
+  controls.forEach((control) => control.style.setProperty('visibility', 'hidden', 'important'));
+  return controls.length;
+}
+
+/**
+ * Collect the fields for every form control in an element
+ *
+ * Radio buttons sharing a `name` form one group; a button without a `value`,
+ * or repeating one, is exported as its index in the group. Controls without a
+ * name use their `id`, then a generated name; repeated names get a numeric
+ * suffix (except radio groups). Password values are never copied.
+ */
+export function extractFormFields(element: HTMLElement): FormFieldArea[] {
+  const origin = element.getBoundingClientRect();
+  const usedNames = new Map<string, number>();
+  const radioNames = new Set<string>();
+  const radioValues = new Map<string, string[]>();
+  const fields: FormFieldArea[] = [];
+
+  getFormControls(element).forEach((control, index) => {
+    const rect = control.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const type = getFieldType(control);
+    const baseName = control.getAttribute('name') || control.id || `${type}_${index + 1}`;
+    let name = baseName;
+
+    if (type === 'radio') {
+      radioNames.add(name);
+    } else {
+      const count = (usedNames.get(baseName) || 0) + 1;
+      usedNames.set(baseName, count);
+      if (count > 1 || radioNames.has(baseName)) name = `${baseName}_${count}`;
+    }
+
+    const field: FormFieldArea = {
+      type,
+      name,
+      value: '',
+      required: control.hasAttribute('required'),
+      readOnly: control.hasAttribute('readonly') || control.hasAttribute('disabled'),
+      fontSize: parseFloat(window.getComputedStyle(control).fontSize) || 13,
+      x: rect.left - origin.left,
+      y: rect.top - origin.top,
+      width: rect.width,
+      height: rect.height,
+    };
+
+    if (control instanceof HTMLSelectElement) {
+      const options = Array.from(control.options);
+      field.options = options.map((option) => option.text);
+      field.value = options.find((option) => option.selected)?.text || '';
+      field.multiple = control.multiple || control.size > 1;
+    } else if (control instanceof HTMLTextAreaElement) {
+      field.value = control.value;
+      if (control.maxLength > 0) field.maxLength = control.maxLength;
+    } else {
+      const input = control as HTMLInputElement;
+      if (type === 'radio') {
+        // Options of a group need distinct export values: a missing or repeated
+        // value becomes the button's position in the group
+        const values = radioValues.get(name) || [];
+        let value = input.getAttribute('value') || '';
+        for (let position = values.length; !value || values.includes(value); position++) {
+          value = String(position);
+        }
+        field.checked = input.checked;
+        field.value = value;
+        radioValues.set(name, [...values, value]);
+      } else if (type === 'checkbox') {
+        field.checked = input.checked;
+        field.value = input.value || 'on';
+      } else {
+        field.value = type === 'password' ? '' : input.value;
+        if (input.maxLength > 0) field.maxLength = input.maxLength;
+      }
+    }
+
+    fields.push(field);
+  });
+
+  return fields;
+}
+
+/**
+ * Place the fields whose vertical centre lies in the current page slice
+ *
+ * @returns The fields with their page and position in millimetres from the
+ * page's top-left corner
+ */
+export function placeFormFieldsOnPage(
+  fields: FormFieldArea[],
+  placement: PageSlicePlacement,
+  pageNumber: number
+): PlacedFormField[] {
+  const { sliceTop, sliceHeight, offsetX, offsetY, mmPerPx } = placement;
+  const sliceBottom = sliceTop + sliceHeight;
+
+  return fields
+    .filter((field) => {
+      const center = field.y + field.height / 2;
+      return center >= sliceTop && center < sliceBottom;
+    })
+    .map((field) => ({
+      field,
+      pageNumber,
+      x: offsetX + field.x * mmPerPx,
+      y: offsetY + (field.y - sliceTop) * mmPerPx,
+      width: field.width * mmPerPx,
+      height: field.height * mmPerPx,
+      fontSize: Math.round(field.fontSize * mmPerPx * PT_PER_MM * 10) / 10,
+    }));
+}
+
+/**
+ * Add AcroForm fields to finished PDF bytes
+ *
+ * Appearances use Helvetica; when a value cannot be encoded in it the viewer
+ * is asked to build the appearance instead (`NeedAppearances`).
+ */
+export async function addFormFieldsToPDF(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  placedFields: PlacedFormField[]
+): Promise<Uint8Array> {
+  const lib = await import('pdf-lib');
+  const { PDFDocument, PDFName, PDFBool, StandardFonts, rgb } = lib;
+  const doc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const form = doc.getForm();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const pages = doc.getPages();
+  const radioGroups = new Map<string, import('pdf-lib').PDFRadioGroup>();
+  let needAppearances = false;
+
+  placedFields.forEach(({ field, pageNumber, x, y, width, height, fontSize }) => {
+    const page = pages[pageNumber - 1];
+    if (!page) return;
+
+    const appearance = {
+      x: x * PT_PER_MM,
+      y: page.getHeight() - (y + height) * PT_PER_MM,
+      width: width * PT_PER_MM,
+      height: height * PT_PER_MM,
+      font,
+      textColor: rgb(0, 0, 0),
+      backgroundColor: rgb(1, 1, 1),
+      borderColor: rgb(0.6, 0.6, 0.6),
+      borderWidth: 1,
+    };
+
+    // Helvetica cannot encode every value; such fields are drawn by the viewer
+    const draw = (render: () => void) => {
+      try {
+        render();
+      } catch (error) {
+        if (!(error instanceof Error) || !/cannot encode/i.test(error.message)) throw error;
+        needAppearances = true;
+      }
+    };
+
+    switch (field.type) {
+      case 'checkbox': {
+        const checkbox = form.createCheckBox(field.name);
+        applyFieldFlags(checkbox, field);
+        checkbox.addToPage(page, appearance);
+        if (field.checked) checkbox.check();
+        break;
+      }
+      case 'radio': {
+        let group = radioGroups.get(field.name);
+        if (!group) {
+          group = form.createRadioGroup(field.name);
+          radioGroups.set(field.name, group);
+        }
+        applyFieldFlags(group, field);
+        group.addOptionToPage(field.value, page, appearance);
+        if (field.checked) group.select(field.value);
+        break;
+      }
+      case 'select': {
+        const choice = field.multiple ? form.createOptionList(field.name) : form.createDropdown(field.name);
+        applyFieldFlags(choice, field);
+        choice.addOptions(field.options || []);
+        if (field.value) choice.select(field.value);
+        draw(() => {
+          choice.addToPage(page, appearance);
+          choice.setFontSize(fontSize);
+          choice.updateAppearances(font);
+        });
+        break;
+      }
+      default: {
+        const text = form.createTextField(field.name);
+        if (field.type === 'textarea') text.enableMultiline();
+        if (field.type === 'password') text.enablePassword();
+        if (field.maxLength) text.setMaxLength(field.maxLength);
+        applyFieldFlags(text, field);
+        text.setText(field.value);
+        draw(() => {
+          text.addToPage(page, appearance);
+          text.setFontSize(fontSize);
+          text.updateAppearances(font);
+        });
+      }
+    }
+  });
+
+  if (needAppearances) {
+    form.acroForm.dict.set(PDFName.of('NeedAppearances'), PDFBool.True);
+  }
+
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+/**
+ * Fill the AcroForm fields of an existing PDF
+ *
+ * Supports text fields, check boxes, radio groups, dropdowns and option lists;
+ * values are matched by fully qualified field name. Values Helvetica cannot
+ * encode (e.g. Cyrillic, CJK) are drawn with `fallbackFont`; without one they
+ * are left for the viewer to draw (`NeedAppearances`), which is not possible
+ * when flattening.
+ *
+ * @example
+ * ```typescript
+ * const { bytes, report } = await fillPDFForm(template, {
+ *   'applicant.name': 'Jane Doe',
+ *   'applicant.resident': true,
+ *   country: 'Germany',
+ * }, { flatten: true });
+ * ```
+ */
+export async function fillPDFForm(
+  templateBytes: Uint8Array | ArrayBuffer,
+  values: Record<string, PDFFormValue>,
+  options: FillPDFFormOptions = {}
+): Promise<FillPDFFormResult> {
+  const lib = await import('pdf-lib');
+  const { PDFDocument, PDFTextField, PDFCheckBox, PDFRadioGroup, PDFDropdown, PDFOptionList, PDFName, PDFBool, StandardFonts } =
+    lib;
+  const { flatten = false, fallbackFont, fontkit } = options;
+
+  if (fallbackFont && !fontkit) {
+    throw new Error('fallbackFont requires a fontkit instance (e.g. @pdf-lib/fontkit)');
+  }
+
+  const doc = await PDFDocument.load(templateBytes, { updateMetadata: false });
+  const form = doc.getForm();
+  const helvetica = await doc.embedFont(StandardFonts.Helvetica);
+  let fallback: import('pdf-lib').PDFFont | null = null;
+
+  const report: PDFFormFillReport = {
+    filled: [],
+    unknown: [],
+    unfilled: [],
+    rejected: [],
+    fallbackFont: [],
+    viewerAppearance: [],
+  };
+
+  const fields = form.getFields();
+  const fillable = fields.filter(
+    (field) =>
+      field instanceof PDFTextField ||
+      field instanceof PDFCheckBox ||
+      field instanceof PDFRadioGroup ||
+      field instanceof PDFDropdown ||
+      field instanceof PDFOptionList
+  );
+  const fieldsByName = new Map(fields.map((field) => [field.getName(), field]));
+
+  report.unknown = Object.keys(values).filter((name) => !fieldsByName.has(name));
+  report.unfilled = fillable.map((field) => field.getName()).filter((name) => !(name in values));
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = fieldsByName.get(name);
+    if (!field) continue;
+
+    const reject = (reason: string) => report.rejected.push({ name, reason });
+
+    try {
+      if (field instanceof PDFTextField) {
+        if (Array.isArray(value)) {
+          reject('Text fields take a single value');
+          continue;
+        }
+        field.setText(String(value));
+      } else if (field instanceof PDFCheckBox) {
+        const checked = toCheckedState(value);
+        if (checked === null) {
+          reject(`"${String(value)}" is not a check box state`);
+          continue;
+        }
+        if (checked) field.check();
+        else field.uncheck();
+      } else if (field instanceof PDFRadioGroup) {
+        if (value === false || value === '') {
+          field.clear();
+        } else if (typeof value === 'string' && field.getOptions().includes(value)) {
+          field.select(value);
+        } else {
+          reject(`"${String(value)}" is not one of: ${field.getOptions().join(', ')}`);
+          continue;
+        }
+      } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+        const selected = (Array.isArray(value) ? value : [String(value)]).filter((option) => option !== '');
+        const editable = field instanceof PDFDropdown && field.isEditable();
+        const invalid = selected.filter((option) => !field.getOptions().includes(option));
+
+        if (selected.length > 1 && field instanceof PDFDropdown && !field.isMultiselect()) {
+          reject('Field accepts a single option');
+          continue;
+        }
+        if (invalid.length > 0 && !editable) {
+          reject(`"${invalid.join('", "')}" is not one of: ${field.getOptions().join(', ')}`);
+          continue;
+        }
+        if (selected.length === 0) field.clear();
+        else field.select(selected);
+      } else {
+        reject('Unsupported field type');
+        continue;
+      }
+    } catch (error) {
+      reject(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    report.filled.push(name);
+
+    // Text and choice appearances are drawn here, so the font can be chosen per field
+    if (!(field instanceof PDFTextField || field instanceof PDFDropdown || field instanceof PDFOptionList)) continue;
+
+    // Option lists draw every option, dropdowns only the selection
+    const text =
+      field instanceof PDFTextField
+        ? field.getText() || ''
+        : (field instanceof PDFOptionList ? field.getOptions() : field.getSelected()).join('');
+
+    if (canEncode(helvetica, text)) {
+      field.updateAppearances(helvetica);
+    } else if (fallbackFont && fontkit) {
+      if (!fallback) {
+        doc.registerFontkit(fontkit);
+        fallback = await doc.embedFont(fallbackFont, { subset: flatten });
+      }
+      field.updateAppearances(fallback);
+      report.fallbackFont.push(name);
+    } else {
+      form.markFieldAsClean(field.ref);
+      report.viewerAppearance.push(name);
+    }
+  }
+
+  if (report.viewerAppearance.length > 0) {
+    if (flatten) {
+      throw new Error(
+        `Cannot flatten values Helvetica cannot encode without a fallbackFont: ${report.viewerAppearance.join(', ')}`
+      );
+    }
+    form.acroForm.dict.set(PDFName.of('NeedAppearances'), PDFBool.True);
+  }
+
+  // Check boxes and radio groups without their own appearances get default ones
+  form.updateFieldAppearances(helvetica);
+  if (flatten) form.flatten({ updateFieldAppearances: false });
+
+  const bytes = await doc.save({ updateFieldAppearances: false });
+  return { bytes, report };
+}
+
+/**
+ * @internal
+ */
+function toCheckedState(value: PDFFormValue): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'on', '1', 'x'].includes(text)) return true;
+  if (['false', 'no', 'off', '0', ''].includes(text)) return false;
+  return null;
+}
+
+/**
+ * @internal
+ */
+function canEncode(font: import('pdf-lib').PDFFont, text: string): boolean {
+  try {
+    font.encodeText(text.replace(/[\r\n]/g, ''));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @internal
+ */
+function applyFieldFlags(target: { enableRequired(): void; enableReadOnly(): void }, field: FormFieldArea): void {
+  if (field.required) target.enableRequired();
+  if (field.readOnly) target.enableReadOnly();
+}
+
+/**
+ * @internal
+ */
+function getFormControls(element: HTMLElement): HTMLElement[] {
+  return Array.from(element.querySelectorAll<HTMLElement>(FORM_CONTROL_SELECTOR));
+}
+
+/**
+ * @internal
+ */
+function getFieldType(control: HTMLElement): FormFieldArea['type'] {
+  if (control instanceof HTMLSelectElement) return 'select';
+  if (control instanceof HTMLTextAreaElement) return 'textarea';
+
+  const type = (control as HTMLInputElement).type;
+  if (type === 'checkbox' || type === 'radio' || type === 'password') return type;
+  return 'text';
+}
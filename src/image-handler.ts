@@ -105,6 +105,13 @@ export async function convertSVGsToImages(element: HTMLElement): Promise<void> {
   );
 }
 
+/**
+ * Gray level (0-255) of an RGB color, as used for grayscale conversion
+ */
+export function getGrayLevel(r: number, g: number, b: number): number {
+  return (r + g + b) / 3;
+}
+
 /**
  * Optimize image quality and size
  */
@@ -176,7 +183,7 @@ export async function optimizeImage(
     const data = imageData.data;
 
     for (let i = 0; i < data.length; i += 4) {
-      const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      const avg = getGrayLevel(data[i], data[i + 1], data[i + 2]);
       data[i] = avg;     // Red
       data[i + 1] = avg; // Green
       data[i + 2] = avg; // Blue
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import jsPDF from 'jspdf';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { getBookletOrder, imposePDF } from './imposition-handler';
+
+/**
+ * A5 document whose pages read "Page 1", "Page 2", ...
+ */
+function createPages(count: number): Uint8Array {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a5' });
+  for (let number = 1; number <= count; number++) {
+    if (number > 1) pdf.addPage();
+    pdf.text(`Page ${number}`, 20, 20);
+  }
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
+
+/**
+ * Page labels on each sheet side, in drawing order, with the half they sit on
+ */
+async function readSheets(bytes: Uint8Array): Promise<string[][]> {
+  const doc = await getDocument({ data: bytes.slice(), verbosity: 0 }).promise;
+  const sheets: string[][] = [];
+  for (let number = 1; number <= doc.numPages; number++) {
+    const page = await doc.getPage(number);
+    const middle = page.view[2] / 2;
+    const content = await page.getTextContent();
+    sheets.push(content.items.flatMap((item) =>
+      'str' in item && item.str.trim() ? [`${item.str} ${item.transform[4] < middle ? 'left' : 'right'}`] : []));
+  }
+  return sheets;
+}
+
+describe('getBookletOrder', () => {
+  it('pairs 8 pages for saddle stitching', () => {
+    expect(getBookletOrder(8).map((index) => (index === null ? null : index + 1)))
+      .toEqual([8, 1, 2, 7, 6, 3, 4, 5]);
+  });
+
+  it('pads 5 pages to 8 with blanks', () => {
+    expect(getBookletOrder(5).map((index) => (index === null ? null : index + 1)))
+      .toEqual([null, 1, 2, null, null, 3, 4, 5]);
+  });
+});
+
+describe('imposePDF', () => {
+  it('lays out booklet sheet sides in saddle-stitch order', async () => {
+    const sheets = await readSheets(await imposePDF(createPages(8), { mode: 'booklet' }));
+
+    expect(sheets).toEqual([
+      ['Page 8 left', 'Page 1 right'],
+      ['Page 2 left', 'Page 7 right'],
+      ['Page 6 left', 'Page 3 right'],
+      ['Page 4 left', 'Page 5 right'],
+    ]);
+  });
+
+  it('leaves the padding pages of a booklet blank', async () => {
+    const sheets = await readSheets(await imposePDF(createPages(5), { mode: 'booklet' }));
+
+    expect(sheets).toEqual([['Page 1 right'], ['Page 2 left'], ['Page 3 right'], ['Page 4 left', 'Page 5 right']]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * PDF Generator Library - Imposition Handler
+ *
+ * N-up and saddle-stitched booklet layouts of finished PDFs for printing
+ */
+
+import type { ImpositionOptions } from './types';
+import { PAPER_FORMATS } from './utils';
+
+/** Millimetres to PDF points */
+const MM_TO_PT = 72 / 25.4;
+
+/** Grid shapes [columns, rows] tried for each pages-per-sheet count */
+const GRIDS: Record<number, Array<[number, number]>> = {
+  2: [[2, 1], [1, 2]],
+  4: [[2, 2]],
+  6: [[3, 2], [2, 3]],
+  9: [[3, 3]],
+};
+
+/** Booklet pages always sit side by side, to fold along the middle */
+const BOOKLET_GRID: Array<[number, number]> = [[2, 1]];
+
+/**
+ * A sheet layout: sheet size and the grid of page cells on it
+ * @internal
+ */
+interface SheetLayout {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  scale: number;
+}
+
+/**
+ * Lay the pages of a PDF out on printing sheets
+ *
+ * In 'n-up' mode pages are placed in reading order, `pagesPerSheet` per
+ * sheet. In 'booklet' mode the page count is padded with blank pages to a
+ * multiple of 4 and the pages are paired for saddle stitching: printed
+ * duplex (flip on the short edge), folded and stapled, the sheets read in
+ * order. Pages are scaled uniformly to fit their cell, centered, and placed
+ * by their TrimBox, so bleed and printer's marks are cut off.
+ *
+ * Pages are drawn as form XObjects, so links, form fields, bookmarks and
+ * tags of the input do not carry over.
+ */
+export async function imposePDF(
+  input: Blob | ArrayBuffer | Uint8Array,
+  options: ImpositionOptions = {}
+): Promise<Uint8Array> {
+  const { mode = 'n-up', pagesPerSheet = 2, gutter = 0, margin = 0 } = options;
+
+  if (mode === 'n-up' && !GRIDS[pagesPerSheet]) {
+    throw new Error(`Imposition supports 2, 4, 6 or 9 pages per sheet, not ${pagesPerSheet}`);
+  }
+  if (gutter < 0 || margin < 0) {
+    throw new Error('Imposition gutter and margin cannot be negative');
+  }
+
+  const lib = await import('pdf-lib');
+  const bytes = input instanceof Uint8Array || input instanceof ArrayBuffer ? input : await input.arrayBuffer();
+  const source = await lib.PDFDocument.load(bytes, { updateMetadata: false });
+  const pages = source.getPages();
+
+  if (pages.length === 0) {
+    throw new Error('Cannot impose a PDF without pages');
+  }
+
+  const doc = await lib.PDFDocument.create();
+  const embedded = await doc.embedPages(
+    pages,
+    pages.map((page) => {
+      const { x, y, width, height } = page.getTrimBox();
+      return { left: x, bottom: y, right: x + width, top: y + height };
+    })
+  );
+
+  // Every page is fitted to the cell of the largest one, so all get the same scale
+  const pageWidth = Math.max(...embedded.map((page) => page.width));
+  const pageHeight = Math.max(...embedded.map((page) => page.height));
+  const layout = chooseSheetLayout(
+    mode === 'booklet' ? BOOKLET_GRID : GRIDS[pagesPerSheet],
+    [pageWidth, pageHeight],
+    options,
+    gutter * MM_TO_PT,
+    margin * MM_TO_PT
+  );
+
+  const order = mode === 'booklet'
+    ? getBookletOrder(pages.length)
+    : pages.map((_, index) => index as number | null);
+  const cellsPerSheet = layout.columns * layout.rows;
+  const cellWidth = pageWidth * layout.scale;
+  const cellHeight = pageHeight * layout.scale;
+  const gridWidth = layout.columns * cellWidth + (layout.columns - 1) * gutter * MM_TO_PT;
+  const gridHeight = layout.rows * cellHeight + (layout.rows - 1) * gutter * MM_TO_PT;
+  const originX = (layout.width - gridWidth) / 2;
+  const originY = (layout.height + gridHeight) / 2;
+
+  for (let start = 0; start < order.length; start += cellsPerSheet) {
+    const sheet = doc.addPage([layout.width, layout.height]);
+
+    order.slice(start, start + cellsPerSheet).forEach((pageIndex, cell) => {
+      if (pageIndex === null) return;
+
+      const page = embedded[pageIndex];
+      const column = cell % layout.columns;
+      const row = Math.floor(cell / layout.columns);
+      const cellX = originX + column * (cellWidth + gutter * MM_TO_PT);
+      const cellTop = originY - row * (cellHeight + gutter * MM_TO_PT);
+      const width = page.width * layout.scale;
+      const height = page.height * layout.scale;
+      const x = cellX + (cellWidth - width) / 2;
+      const y = cellTop - cellHeight + (cellHeight - height) / 2;
+
+      sheet.drawPage(page, { x, y, width, height });
+
+      if (options.border) {
+        sheet.drawRectangle({ x, y, width, height, borderWidth: 0.5, borderColor: lib.rgb(0, 0, 0) });
+      }
+    });
+  }
+
+  const title = source.getTitle();
+  if (title) doc.setTitle(title);
+
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+/**
+ * Page order for a saddle-stitched booklet, as sheet sides of two pages each
+ *
+ * Blank pages (null) pad the count to a multiple of 4. For 8 pages the sides
+ * are [8, 1], [2, 7], [6, 3], [4, 5].
+ *
+ * @returns Zero-based page indices, two per sheet side, left page first
+ */
+export function getBookletOrder(pageCount: number): Array<number | null> {
+  const padded = Math.ceil(pageCount / 4) * 4;
+  const page = (number: number) => (number <= pageCount ? number - 1 : null);
+  const order: Array<number | null> = [];
+
+  for (let i = 0; i < padded / 2; i += 2) {
+    order.push(page(padded - i), page(i + 1));
+    order.push(page(i + 2), page(padded - i - 1));
+  }
+
+  return order;
+}
+
+/**
+ * Pick the sheet orientation and grid that show the pages largest
+ * @internal
+ */
+function chooseSheetLayout(
+  grids: Array<[number, number]>,
+  [pageWidth, pageHeight]: [number, number],
+  options: ImpositionOptions,
+  gutter: number,
+  margin: number
+): SheetLayout {
+  const format = PAPER_FORMATS[options.sheetFormat || 'a4'];
+  const short = Math.min(format.width, format.height) * MM_TO_PT;
+  const long = Math.max(format.width, format.height) * MM_TO_PT;
+  const orientations = options.sheetOrientation ? [options.sheetOrientation] : ['portrait', 'landscape'];
+
+  let best: SheetLayout | null = null;
+  for (const orientation of orientations) {
+    const width = orientation === 'portrait' ? short : long;
+    const height = orientation === 'portrait' ? long : short;
+
+    for (const [columns, rows] of grids) {
+      const cellWidth = (width - 2 * margin - (columns - 1) * gutter) / columns;
+      const cellHeight = (height - 2 * margin - (rows - 1) * gutter) / rows;
+      const scale = Math.min(cellWidth / pageWidth, cellHeight / pageHeight);
+
+      if (scale > 0 && (!best || scale > best.scale)) {
+        best = { width, height, columns, rows, scale };
+      }
+    }
+  }
+
+  if (!best) {
+    throw new Error('Imposition margin and gutter leave no room for pages on the sheet');
+  }
+
+  return best;
+}
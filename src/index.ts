@@ -41,6 +41,28 @@ export type {
   PDFPageConfig,
   PDFGenerationResult,
   PDFRenderContext,
+  PageSlicePlacement,
+  FontLoadFailure,
+  PDFSignatureOptions,
+  SignatureAppearance,
+  PDFConformance,
+  PDFAViolation,
+  PDFAPreflightReport,
+  AccessibilityOptions,
+  PDFAttachment,
+  AttachmentRelationship,
+  EInvoiceProfile,
+  EInvoiceVATCategory,
+  EInvoiceParty,
+  EInvoiceLine,
+  EInvoiceData,
+  EInvoiceOptions,
+  EInvoiceValidationIssue,
+  StationeryOptions,
+  PrintMarksOptions,
+  ImpositionOptions,
+  ColorMode,
+  PDFTheme,
   PDFContentItem,
   BatchPDFGenerationResult,
 } from './types';
@@ -69,6 +91,7 @@ export {
   preloadImages,
   convertSVGsToImages,
   optimizeImage,
+  getGrayLevel,
   processImagesForPDF,
   processBackgroundImages,
   getImageDimensions,
@@ -99,6 +122,8 @@ export {
   analyzePageBreaks,
   applyPageBreakHints,
   calculatePageBreakPositions,
+  calculateSafeBreakPositions,
+  getPageNumberForOffset,
   insertPageBreakMarkers,
   removePageBreakMarkers,
   wouldElementBeSplit,
@@ -110,3 +135,151 @@ export {
   DEFAULT_BREAK_BEFORE,
 } from './page-break-handler';
 export type { PageBreakOptions, PageBreakPoint } from './page-break-handler';
+
+// Text layer exports
+export { extractTextRuns, addTextLayerToPage, registerTextLayerFont } from './text-layer';
+export type { TextRun } from './text-layer';
+
+// Link annotation exports
+export {
+  extractLinkAreas,
+  mapAreaToPage,
+  addLinksToPage,
+  extractInternalLinks,
+  collectDestinationsOnPage,
+  collectInternalLinksOnPage,
+  addInternalLinks,
+} from './link-handler';
+export type {
+  LinkArea,
+  InternalLinkArea,
+  AnchorTarget,
+  LinkDestination,
+  PendingInternalLink,
+} from './link-handler';
+
+// Outline exports
+export { mergeBookmarkEntries, addOutlineToPDF } from './outline-handler';
+
+// Tagged PDF exports
+export {
+  extractStructureTree,
+  getDocumentLanguage,
+  beginMarkedContent,
+  beginArtifact,
+  endMarkedContent,
+  addFiguresToPage,
+  writeStructureTree,
+} from './structure-handler';
+export type {
+  StructureRole,
+  StructureNode,
+  StructureTree,
+  MarkedContentReference,
+  ArtifactKind,
+} from './structure-handler';
+
+// PDF tools exports
+export {
+  mergePDFs,
+  splitPDF,
+  extractPages,
+  reorderPages,
+  rotatePages,
+  deletePages,
+  insertBlankPages,
+  insertPDFs,
+  getPDFPageCount,
+  parsePageSelection,
+} from './pdf-tools';
+export type { PDFInput, PageSelection, InsertBlankPagesOptions } from './pdf-tools';
+
+// Attachment exports
+export { embedAttachments } from './attachment-handler';
+
+// Stationery exports
+export { applyStationery } from './stationery-handler';
+
+// Print production exports
+export {
+  resolvePrintMarks,
+  fillBleed,
+  drawPrintMarks,
+  extendIntoBleed,
+  getEffectiveBackground,
+  setPrintBoxes,
+} from './print-handler';
+export type { BleedEdges } from './print-handler';
+
+// Color mode exports
+export {
+  mapColor,
+  applyColorModeToCanvas,
+  applyColorModeToDataURL,
+  applyHighContrast,
+} from './color-mode';
+
+// CSS color exports
+export {
+  parseCSSColor,
+  toSRGB,
+  cssColorToRgb,
+  toRgbString,
+  convertColor,
+  hasModernColor,
+  convertModernColorsInCSS,
+  convertModernColorsInElement,
+  convertModernColorsInStylesheets,
+  resolveCustomPropertyColors,
+} from './css-color';
+export type { CSSColor, CSSColorSpace } from './css-color';
+
+// Theme exports
+export { forceLightColorScheme, isDarkBackground, applyLightTheme } from './theme-handler';
+
+// Imposition exports
+export { imposePDF, getBookletOrder } from './imposition-handler';
+
+// Form field exports
+export {
+  hideFormControls,
+  extractFormFields,
+  placeFormFieldsOnPage,
+  addFormFieldsToPDF,
+  fillPDFForm,
+} from './form-handler';
+export type {
+  FormFieldArea,
+  PlacedFormField,
+  PDFFormValue,
+  FillPDFFormOptions,
+  PDFFormFillReport,
+  FillPDFFormResult,
+} from './form-handler';
+
+// Font loading exports
+export { injectFontFaces, loadFonts, applyFontFallback } from './font-handler';
+
+// Encryption exports
+export { encryptPDF, getPermissionFlags } from './security-handler';
+export type { EncryptPDFOptions } from './security-handler';
+
+// Signature exports
+export { signPDF, addSignaturePlaceholder, applySignature } from './signature-handler';
+
+// PDF/A exports
+export { convertToPDFA, preflightPDFA } from './pdfa-handler';
+export { createSRGBProfile } from './color-profile';
+
+// E-invoice exports
+export {
+  validateEInvoice,
+  createFacturXML,
+  createFacturXAttachment,
+  getFacturXMetadata,
+  FACTURX_FILENAME,
+} from './einvoice-handler';
+
+// Post-processing exports
+export { postProcessPDF, needsPostProcessing } from './pdf-post-processor';
+export type { PostProcessEnvironment, PostProcessResult } from './pdf-post-processor';
@@ -0,0 +1,280 @@
+/**
+ * PDF Generator Library - Link Handler
+ *
+ * Clickable link annotations for anchors in rasterized content,
+ * including fragment links that jump to positions inside the document
+ */
+
+import type jsPDF from 'jspdf';
+import type { PageSlicePlacement } from './types';
+
+/**
+ * A clickable area measured in the prepared element
+ */
+export interface LinkArea {
+  /** Resolved absolute URL */
+  url: string;
+  /** Left edge in CSS pixels, relative to the rendered element */
+  x: number;
+  /** Top edge in CSS pixels, relative to the rendered element */
+  y: number;
+  /** Width in CSS pixels */
+  width: number;
+  /** Height in CSS pixels */
+  height: number;
+}
+
+/** URL schemes that are never turned into link annotations */
+const BLOCKED_SCHEMES = ['javascript:', 'data:', 'blob:'];
+
+/**
+ * Collect the client rects of every external `<a href>` in an element
+ *
+ * Inline anchors that wrap produce one area per line box. Fragment-only links
+ * (`#id`) are skipped here.
+ */
+export function extractLinkAreas(element: HTMLElement): LinkArea[] {
+  const origin = element.getBoundingClientRect();
+  const areas: LinkArea[] = [];
+
+  element.querySelectorAll('a[href]').forEach((anchor) => {
+    const rawHref = anchor.getAttribute('href')?.trim() || '';
+    if (!rawHref || rawHref.startsWith('#')) return;
+
+    const url = (anchor as HTMLAnchorElement).href;
+    if (!url || BLOCKED_SCHEMES.some((scheme) => url.toLowerCase().startsWith(scheme))) return;
+
+    Array.from(anchor.getClientRects()).forEach((rect) => {
+      if (rect.width <= 0 || rect.height <= 0) return;
+
+      areas.push({
+        url,
+        x: rect.left - origin.left,
+        y: rect.top - origin.top,
+        width: rect.width,
+        height: rect.height,
+      });
+    });
+  });
+
+  return areas;
+}
+
+/**
+ * Clip an area to a page slice and convert it to page coordinates in mm
+ *
+ * @returns Rectangle on the page, or null when the area is outside the slice
+ */
+export function mapAreaToPage(
+  area: { x: number; y: number; width: number; height: number },
+  placement: PageSlicePlacement
+): { x: number; y: number; width: number; height: number } | null {
+  const { sliceTop, sliceHeight, offsetX, offsetY, mmPerPx } = placement;
+  const top = Math.max(area.y, sliceTop);
+  const bottom = Math.min(area.y + area.height, sliceTop + sliceHeight);
+
+  if (bottom <= top) return null;
+
+  return {
+    x: offsetX + area.x * mmPerPx,
+    y: offsetY + (top - sliceTop) * mmPerPx,
+    width: area.width * mmPerPx,
+    height: (bottom - top) * mmPerPx,
+  };
+}
+
+/**
+ * Add a URI link annotation for every area that touches the current page slice
+ *
+ * An area that crosses a page boundary gets a clipped annotation on each page.
+ */
+export function addLinksToPage(
+  pdf: jsPDF,
+  areas: LinkArea[],
+  placement: PageSlicePlacement
+): void {
+  areas.forEach((area) => {
+    const rect = mapAreaToPage(area, placement);
+    if (!rect) return;
+
+    pdf.link(rect.x, rect.y, rect.width, rect.height, { url: area.url });
+  });
+}
+
+/**
+ * A clickable area that jumps to an element inside the document
+ */
+export interface InternalLinkArea {
+  /** Id of the target element (fragment without `#`) */
+  targetId: string;
+  /** Left edge in CSS pixels, relative to the rendered element */
+  x: number;
+  /** Top edge in CSS pixels, relative to the rendered element */
+  y: number;
+  /** Width in CSS pixels */
+  width: number;
+  /** Height in CSS pixels */
+  height: number;
+}
+
+/**
+ * Position of a link target inside the rendered element
+ */
+export interface AnchorTarget {
+  /** Target id */
+  id: string;
+  /** Top edge in CSS pixels, relative to the rendered element */
+  y: number;
+}
+
+/**
+ * Resolved destination of a link target in the PDF
+ */
+export interface LinkDestination {
+  /** Page number (1-indexed) */
+  pageNumber: number;
+  /** Distance from the top of the page in mm */
+  top: number;
+}
+
+/**
+ * Internal link area clipped to a page, waiting for its destination
+ */
+export interface PendingInternalLink {
+  /** Page the annotation is placed on (1-indexed) */
+  pageNumber: number;
+  /** Annotation rectangle on the page in mm */
+  rect: { x: number; y: number; width: number; height: number };
+  /** Id of the target element */
+  targetId: string;
+}
+
+/**
+ * Collect fragment links (`<a href="#id">`) and the positions of the elements they point to
+ *
+ * Targets are matched by `id`, falling back to `<a name>`. Links whose target
+ * does not exist in the element are dropped.
+ */
+export function extractInternalLinks(element: HTMLElement): {
+  links: InternalLinkArea[];
+  targets: AnchorTarget[];
+} {
+  const origin = element.getBoundingClientRect();
+  const links: InternalLinkArea[] = [];
+  const targets = new Map<string, AnchorTarget>();
+
+  element.querySelectorAll('a[href^="#"]').forEach((anchor) => {
+    const fragment = anchor.getAttribute('href')!.substring(1);
+    if (!fragment) return;
+
+    let targetId = fragment;
+    try {
+      targetId = decodeURIComponent(fragment);
+    } catch {
+      // Keep the raw fragment if it is not valid percent-encoding
+    }
+
+    if (!targets.has(targetId)) {
+      const target = findAnchorTarget(element, targetId);
+      if (!target) return;
+
+      targets.set(targetId, {
+        id: targetId,
+        y: target.getBoundingClientRect().top - origin.top,
+      });
+    }
+
+    Array.from(anchor.getClientRects()).forEach((rect) => {
+      if (rect.width <= 0 || rect.height <= 0) return;
+
+      links.push({
+        targetId,
+        x: rect.left - origin.left,
+        y: rect.top - origin.top,
+        width: rect.width,
+        height: rect.height,
+      });
+    });
+  });
+
+  return { links, targets: Array.from(targets.values()) };
+}
+
+/**
+ * Find the element a fragment refers to
+ * @internal
+ */
+function findAnchorTarget(element: HTMLElement, id: string): Element | null {
+  const byId = Array.from(element.querySelectorAll('[id]')).find((el) => el.id === id);
+  if (byId) return byId;
+
+  return Array.from(element.querySelectorAll('a[name]')).find((el) => el.getAttribute('name') === id) || null;
+}
+
+/**
+ * Record the destination of every target that starts on the current page slice
+ *
+ * The first slice a target appears on wins, so targets are resolved once.
+ */
+export function collectDestinationsOnPage(
+  targets: AnchorTarget[],
+  placement: PageSlicePlacement,
+  pageNumber: number,
+  destinations: Map<string, LinkDestination>
+): void {
+  const { sliceTop, sliceHeight, offsetY, mmPerPx } = placement;
+
+  targets.forEach((target) => {
+    if (destinations.has(target.id)) return;
+    if (target.y < sliceTop || target.y >= sliceTop + sliceHeight) return;
+
+    destinations.set(target.id, {
+      pageNumber,
+      top: offsetY + (target.y - sliceTop) * mmPerPx,
+    });
+  });
+}
+
+/**
+ * Clip internal link areas to the current page slice for later resolution
+ */
+export function collectInternalLinksOnPage(
+  links: InternalLinkArea[],
+  placement: PageSlicePlacement,
+  pageNumber: number,
+  pending: PendingInternalLink[]
+): void {
+  links.forEach((link) => {
+    const rect = mapAreaToPage(link, placement);
+    if (!rect) return;
+
+    pending.push({ pageNumber, rect, targetId: link.targetId });
+  });
+}
+
+/**
+ * Write GoTo link annotations with XYZ destinations once every page is laid out
+ *
+ * Leaves the last page of the document as the current page.
+ */
+export function addInternalLinks(
+  pdf: jsPDF,
+  pending: PendingInternalLink[],
+  destinations: Map<string, LinkDestination>
+): void {
+  if (pending.length === 0) return;
+
+  pending.forEach(({ pageNumber, rect, targetId }) => {
+    const destination = destinations.get(targetId);
+    if (!destination) return;
+
+    pdf.setPage(pageNumber);
+    pdf.link(rect.x, rect.y, rect.width, rect.height, {
+      pageNumber: destination.pageNumber,
+      top: destination.top,
+      magFactor: 'XYZ',
+    });
+  });
+
+  pdf.setPage(pdf.getNumberOfPages());
+}
@@ -0,0 +1,69 @@
+/**
+ * PDF Generator Library - Outline Handler
+ *
+ * PDF outline (bookmarks) tree generation
+ */
+
+import type jsPDF from 'jspdf';
+import type { BookmarkEntry } from './types';
+
+/**
+ * Merge auto-generated and custom bookmarks into one tree
+ *
+ * Top-level entries are ordered by target page; at equal pages auto-generated
+ * entries come first. Nested children are kept as given.
+ */
+export function mergeBookmarkEntries(
+  generated: BookmarkEntry[],
+  custom: BookmarkEntry[] = []
+): BookmarkEntry[] {
+  return [...generated, ...custom]
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.page - b.entry.page || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Write bookmark entries as a PDF outline tree using jsPDF's outline plugin
+ *
+ * Target pages are clamped to the document's page range.
+ */
+export function addOutlineToPDF(
+  pdf: jsPDF,
+  entries: BookmarkEntry[],
+  options: { openByDefault?: boolean } = {}
+): void {
+  if (entries.length === 0) return;
+
+  const pageCount = pdf.getNumberOfPages();
+
+  const addEntries = (parent: any, items: BookmarkEntry[]): void => {
+    items.forEach((entry) => {
+      const pageNumber = Math.min(Math.max(1, Math.round(entry.page)), pageCount);
+      const item = pdf.outline.add(parent, entry.title, { pageNumber });
+
+      if (entry.children && entry.children.length > 0) {
+        addEntries(item, entry.children);
+      }
+    });
+  };
+
+  addEntries(null, entries);
+
+  // Show the bookmarks panel when the document opens
+  if (options.openByDefault) {
+    pdf.setDisplayMode(null, null, 'UseOutlines');
+  }
+}
+
+/**
+ * Move bookmark entries and their children by a number of pages
+ * @internal
+ */
+export function shiftBookmarkPages(entries: BookmarkEntry[], delta: number): BookmarkEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    page: entry.page + delta,
+    ...(entry.children && { children: shiftBookmarkPages(entry.children, delta) }),
+  }));
+}
@@ -282,6 +282,159 @@ export function calculatePageBreakPositions(
   return positions;
 }
 
+/**
+ * Calculate safe cut positions for slicing a rendered element into pages
+ *
+ * Unlike calculatePageBreakPositions, the returned positions are relative to
+ * the element's top edge and never exceed one page height apart. Forced breaks
+ * (break-before/after: page) always start a new page, elements marked
+ * break-inside: avoid move to the next page when they fit on one, and cuts that
+ * would slice through a line of text or an image are moved above it.
+ *
+ * @returns Cut positions in CSS pixels, excluding 0 and the content end
+ */
+export function calculateSafeBreakPositions(
+  element: HTMLElement,
+  pageHeight: number,
+  options: PageBreakOptions = {}
+): number[] {
+  const origin = element.getBoundingClientRect().top;
+  const contentHeight = element.scrollHeight;
+  const breakPoints = analyzePageBreaks(element, pageHeight, options);
+
+  const forced = breakPoints
+    .filter((bp) => bp.type === 'forced')
+    .map((bp) => bp.position - origin)
+    .filter((position) => position > 0 && position < contentHeight)
+    .sort((a, b) => a - b);
+
+  const avoidRanges = breakPoints
+    .filter((bp) => bp.type === 'avoid')
+    .map((bp) => {
+      const rect = bp.element.getBoundingClientRect();
+      let bottom = rect.bottom;
+
+      // Keep headings together with the start of the content that follows them
+      const next = bp.element.nextElementSibling;
+      if (/^H[1-6]$/.test(bp.element.tagName) && next) {
+        bottom = Math.min(next.getBoundingClientRect().bottom, rect.bottom + rect.height * 2);
+      }
+
+      return { top: rect.top - origin, bottom: bottom - origin };
+    })
+    .filter((range) => range.bottom - range.top <= pageHeight);
+
+  const unbreakable = collectUnbreakableRanges(element, origin);
+
+  const positions: number[] = [];
+  let current = 0;
+
+  while (current + pageHeight < contentHeight) {
+    const limit = current + pageHeight;
+
+    // A forced break inside this page always wins
+    const forcedBreak = forced.find((position) => position > current + 1 && position <= limit);
+    if (forcedBreak !== undefined) {
+      positions.push(forcedBreak);
+      current = forcedBreak;
+      continue;
+    }
+
+    let cut = limit;
+
+    // Move the cut above anything that would be split, repeating because moving
+    // above one element can land inside another
+    let moved = true;
+    while (moved) {
+      moved = false;
+      for (const range of [...avoidRanges, ...unbreakable]) {
+        if (range.top < cut && range.bottom > cut && range.top > current) {
+          cut = range.top;
+          moved = true;
+        }
+      }
+    }
+
+    // Prefer ending on an element boundary found by walking the DOM
+    if (cut === limit) {
+      const before = findBestBreakBefore(element, origin + cut);
+      if (before) {
+        const rect = before.getBoundingClientRect();
+        const boundary = rect.bottom - origin <= cut ? rect.bottom - origin : rect.top - origin;
+        if (boundary > current + pageHeight / 2 && boundary < cut) {
+          const splitsLine = unbreakable.some((range) => range.top < boundary && range.bottom > boundary);
+          if (!splitsLine) cut = boundary;
+        }
+      }
+    }
+
+    // Nothing fits: fall back to a hard cut so pagination always advances
+    if (cut <= current + 1) {
+      cut = limit;
+    }
+
+    positions.push(cut);
+    current = cut;
+  }
+
+  return positions;
+}
+
+/**
+ * Get the page (1-indexed) a vertical offset lands on
+ *
+ * @param offset - Offset in CSS pixels from the top of the rendered element
+ * @param pageHeight - Page height in CSS pixels, used when no cut positions are given
+ * @param breakPositions - Cut positions from calculateSafeBreakPositions
+ */
+export function getPageNumberForOffset(
+  offset: number,
+  pageHeight: number,
+  breakPositions?: number[]
+): number {
+  if (breakPositions) {
+    return breakPositions.filter((position) => position <= offset).length + 1;
+  }
+  return Math.floor(Math.max(0, offset) / pageHeight) + 1;
+}
+
+/**
+ * Collect vertical ranges of text lines and replaced elements that must not be cut
+ * @internal
+ */
+function collectUnbreakableRanges(
+  element: HTMLElement,
+  origin: number
+): Array<{ top: number; bottom: number }> {
+  const ranges: Array<{ top: number; bottom: number }> = [];
+
+  element.querySelectorAll('img, svg, canvas, video, iframe, tr').forEach((el) => {
+    const rect = el.getBoundingClientRect();
+    if (rect.height > 0) {
+      ranges.push({ top: rect.top - origin, bottom: rect.bottom - origin });
+    }
+  });
+
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let node = walker.nextNode();
+
+  while (node) {
+    if (node.textContent && node.textContent.trim()) {
+      range.selectNodeContents(node);
+      Array.from(range.getClientRects()).forEach((rect) => {
+        if (rect.height > 0) {
+          ranges.push({ top: rect.top - origin, bottom: rect.bottom - origin });
+        }
+      });
+    }
+    node = walker.nextNode();
+  }
+
+  range.detach();
+  return ranges;
+}
+
 /**
  * Insert page break markers in DOM
  */
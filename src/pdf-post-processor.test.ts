@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import fontkit from '@pdf-lib/fontkit';
+import jsPDF from 'jspdf';
+import forge from 'node-forge';
+import { postProcessPDF } from './pdf-post-processor';
+import { preflightPDFA } from './pdfa-handler';
+import { addTextLayerToPage } from './text-layer';
+import type { EInvoiceData } from './types';
+
+const invoice: EInvoiceData = {
+  number: 'INV-2024-001',
+  issueDate: '2024-03-15',
+  currency: 'EUR',
+  seller: {
+    name: 'Muster GmbH',
+    vatId: 'DE123456789',
+    address: { line1: 'Hauptstraße 1', postcode: '10115', city: 'Berlin', countryCode: 'DE' },
+  },
+  buyer: {
+    name: 'Client SARL',
+    address: { line1: '2 rue de la Paix', postcode: '75002', city: 'Paris', countryCode: 'FR' },
+  },
+  dueDate: '2024-04-14',
+  lines: [{ name: 'Consulting', quantity: 8, unitCode: 'HUR', unitPrice: 120, vatRate: 19 }],
+};
+
+/**
+ * A generated invoice page: a filled area standing in for the raster and the text layer
+ */
+function createInvoicePage(): Uint8Array {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  pdf.setFillColor(250, 250, 250);
+  pdf.rect(10, 10, 190, 277, 'F');
+  addTextLayerToPage(
+    pdf,
+    [{ text: 'Invoice INV-2024-001', x: 0, y: 0, width: 200, height: 24, fontSize: 18 }],
+    { sliceTop: 0, sliceHeight: 1000, offsetX: 10, offsetY: 10, mmPerPx: 0.26 }
+  );
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
+
+/**
+ * Self-signed PEM key and certificate for signing tests
+ */
+function createCredentials(): { privateKey: string; certificate: string } {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date(Date.UTC(2024, 0, 1));
+  cert.validity.notAfter = new Date(Date.UTC(2034, 0, 1));
+  const subject = [{ name: 'commonName', value: 'Test Signer' }];
+  cert.setSubject(subject);
+  cert.setIssuer(subject);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  return { privateKey: forge.pki.privateKeyToPem(keys.privateKey), certificate: forge.pki.certificateToPem(cert) };
+}
+
+describe('postProcessPDF', () => {
+  it.each(['MINIMUM', 'BASIC', 'EN16931'] as const)('produces a compliant PDF/A-3b %s e-invoice', async (profile) => {
+    const { bytes, preflight } = await postProcessPDF(createInvoicePage(), { eInvoice: { profile, invoice } });
+
+    expect(preflight?.conformance).toBe('PDF/A-3b');
+    expect(preflight?.violations.filter((violation) => !violation.fixed)).toEqual([]);
+    expect(preflight?.compliant).toBe(true);
+    expect((await preflightPDFA(bytes, 'PDF/A-3b')).compliant).toBe(true);
+  });
+
+  it('keeps an e-invoice compliant when another conformance level was requested', async () => {
+    const { preflight } = await postProcessPDF(createInvoicePage(), {
+      eInvoice: { profile: 'EN16931', invoice },
+      conformance: 'PDF/A-2b',
+    });
+
+    expect(preflight?.compliant).toBe(true);
+    expect(preflight?.violations.map((violation) => violation.rule)).toContain('conformance');
+  });
+
+  it('counts the imposed sheets, inserted pages included', async () => {
+    const pages = (count: number) => {
+      const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+      for (let i = 1; i < count; i++) pdf.addPage();
+      return new Uint8Array(pdf.output('arraybuffer'));
+    };
+
+    const { sheetCount } = await postProcessPDF(pages(5), {
+      prependPDFs: [pages(1)],
+      insertedPageNumbering: 'skip',
+      imposition: { mode: 'n-up', pagesPerSheet: 2 },
+    });
+
+    expect(sheetCount).toBe(3);
+  });
+
+  it.each([
+    ['invisible', undefined],
+    ['visible', { x: 20, y: 250, width: 70, height: 20 }],
+  ])('reports the preflight of the signed PDF/A file (%s signature)', async (_, appearance) => {
+    const { bytes, preflight } = await postProcessPDF(createInvoicePage(), {
+      conformance: 'PDF/A-2b',
+      signatureOptions: { enabled: true, reason: 'Approval', appearance, ...createCredentials() },
+    });
+    const signed = await preflightPDFA(bytes, 'PDF/A-2b');
+
+    expect(preflight?.compliant).toBe(signed.compliant);
+    expect(preflight?.violations.filter((violation) => !violation.fixed)).toEqual(signed.violations);
+    // Outside a browser the appearance cannot be rasterized and keeps Helvetica
+    expect(signed.compliant).toBe(!appearance);
+  });
+
+  it('keeps a visible signature archival with an embedded appearance font', async () => {
+    const font = readFileSync(
+      createRequire(import.meta.url).resolve('pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf')
+    );
+    const { bytes, preflight } = await postProcessPDF(createInvoicePage(), {
+      conformance: 'PDF/A-2b',
+      signatureOptions: {
+        enabled: true,
+        reason: 'Утверждение',
+        appearance: { x: 20, y: 250, width: 70, height: 20, font, fontkit },
+        ...createCredentials(),
+      },
+    });
+
+    expect(preflight?.compliant).toBe(true);
+    expect((await preflightPDFA(bytes, 'PDF/A-2b')).compliant).toBe(true);
+  });
+
+  it('rejects stationery with PDF/A-1b', async () => {
+    await expect(
+      postProcessPDF(createInvoicePage(), { stationery: { pdf: createInvoicePage() }, conformance: 'PDF/A-1b' })
+    ).rejects.toThrow('PDF/A-1b');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * PDF Generator Library - Post-Processor
+ *
+ * Stages applied to finished PDF bytes, shared by the browser and Node generators
+ */
+
+import type { PDFAPreflightReport, PDFGeneratorOptions } from './types';
+import { encryptPDF } from './security-handler';
+import { addSignaturePlaceholder, applySignature } from './signature-handler';
+import { convertToPDFA, preflightPDFA } from './pdfa-handler';
+import { embedAttachments } from './attachment-handler';
+import { createFacturXAttachment, getFacturXMetadata } from './einvoice-handler';
+import { insertPDFs, getPDFPageCount } from './pdf-tools';
+import { applyStationery } from './stationery-handler';
+import { imposePDF } from './imposition-handler';
+
+/**
+ * Environment-specific dependencies for post-processing
+ */
+export interface PostProcessEnvironment {
+  /** Web Crypto implementation (defaults to `globalThis.crypto`) */
+  crypto?: Crypto;
+}
+
+/**
+ * Output of the post-processing pipeline
+ */
+export interface PostProcessResult {
+  /** Final PDF bytes */
+  bytes: Uint8Array;
+  /** PDF/A preflight report (when `conformance` is set) */
+  preflight?: PDFAPreflightReport;
+  /** Pages of the imposed file: sheets, or sheet sides for a booklet (when `imposition` is set) */
+  sheetCount?: number;
+}
+
+/**
+ * Check whether any post-processing stage is enabled
+ */
+export function needsPostProcessing(options: Partial<PDFGeneratorOptions>): boolean {
+  return !!(
+    options.stationery ||
+    options.prependPDFs?.length ||
+    options.appendPDFs?.length ||
+    options.imposition ||
+    options.attachments?.length ||
+    options.eInvoice ||
+    options.conformance ||
+    options.securityOptions?.enabled ||
+    options.signatureOptions?.enabled
+  );
+}
+
+/**
+ * Apply every enabled post-processing stage to a finished PDF
+ *
+ * Order matters:
+ * 1. Stationery goes under the generated pages.
+ * 2. The pages of `prependPDFs` and `appendPDFs` are inserted, so every later
+ *    stage covers them.
+ * 3. Imposition lays out the complete page sequence.
+ * 4. Attachments (including the e-invoice XML) are embedded, so PDF/A
+ *    conversion and its preflight see them.
+ * 5. PDF/A conversion rewrites the whole file.
+ * 6. The signature placeholder is added.
+ * 7. Encryption rewrites the file, leaving the placeholder in clear text.
+ * 8. The signature is computed over the final bytes.
+ *
+ * The signature field is added after PDF/A conversion, so with both the
+ * preflight is repeated on the signed file and the report describes it.
+ *
+ * PDF/A forbids encryption, so `securityOptions` is ignored when
+ * `conformance` is set and the preflight report records it. An e-invoice
+ * always produces PDF/A-3b, the only level that allows its XML attachment.
+ *
+ * @throws Error when the e-invoice data is not valid for its profile, or
+ * when `stationery` is combined with PDF/A-1b
+ */
+export async function postProcessPDF(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  options: Partial<PDFGeneratorOptions>,
+  environment: PostProcessEnvironment = {}
+): Promise<PostProcessResult> {
+  let bytes = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  let preflight: PDFAPreflightReport | undefined;
+  let sheetCount: number | undefined;
+  const signature = options.signatureOptions;
+  const security = options.securityOptions;
+  const eInvoice = options.eInvoice;
+  const conformance = eInvoice ? 'PDF/A-3b' : options.conformance;
+  const attachments = [...(options.attachments || [])];
+
+  if (options.stationery && conformance === 'PDF/A-1b') {
+    throw new Error('Stationery shows through transparent pages, which PDF/A-1b forbids; use PDF/A-2b or PDF/A-3b');
+  }
+
+  if (options.stationery) {
+    bytes = await applyStationery(bytes, options.stationery);
+  }
+
+  if (options.prependPDFs?.length || options.appendPDFs?.length) {
+    bytes = await insertPDFs(bytes, { prepend: options.prependPDFs, append: options.appendPDFs });
+  }
+
+  if (options.imposition) {
+    bytes = await imposePDF(bytes, options.imposition);
+    sheetCount = await getPDFPageCount(bytes);
+  }
+
+  if (eInvoice) {
+    attachments.push(createFacturXAttachment(eInvoice));
+  }
+
+  if (attachments.length > 0) {
+    bytes = await embedAttachments(bytes, attachments);
+  }
+
+  if (conformance) {
+    const converted = await convertToPDFA(
+      bytes,
+      conformance,
+      options.metadata,
+      eInvoice ? getFacturXMetadata(eInvoice.profile) : []
+    );
+    bytes = converted.bytes;
+    preflight = converted.report;
+
+    if (eInvoice && options.conformance && options.conformance !== conformance) {
+      preflight.violations.push({
+        rule: 'conformance',
+        message: `E-invoices require PDF/A-3b; conformance '${options.conformance}' was replaced`,
+        fixed: true,
+      });
+    }
+
+    if (security?.enabled) {
+      preflight.violations.push({
+        rule: 'encryption',
+        message: `Encryption is not permitted in ${conformance}; securityOptions was ignored`,
+        fixed: true,
+      });
+    }
+  }
+
+  if (signature?.enabled) {
+    bytes = await addSignaturePlaceholder(bytes, signature, conformance);
+  }
+
+  if (security?.enabled && !conformance) {
+    bytes = await encryptPDF(bytes, security, { crypto: environment.crypto });
+  }
+
+  if (signature?.enabled) {
+    bytes = await applySignature(bytes, signature);
+
+    // The signature field is added after conversion, so check the signed file itself
+    if (conformance && preflight) {
+      const signed = await preflightPDFA(bytes, conformance);
+      preflight = {
+        ...signed,
+        violations: [...preflight.violations.filter((violation) => violation.fixed), ...signed.violations],
+      };
+    }
+  }
+
+  return { bytes, preflight, sheetCount };
+}
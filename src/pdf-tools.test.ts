@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parsePageSelection } from './pdf-tools';
+
+describe('parsePageSelection', () => {
+  it.each([
+    ['1-3, 5', [0, 1, 2, 4]],
+    ['8-', [7, 8, 9]],
+    ['-2', [0, 1]],
+    ['3-1', [2, 1, 0]],
+    ['3 - 4', [2, 3]],
+  ])('parses %j', (selection, pages) => {
+    expect(parsePageSelection(selection, 10)).toEqual(pages);
+  });
+
+  it.each(['abc', '1-x', '-', '1--2', '2.5'])('names the malformed entry in %j', (selection) => {
+    expect(() => parsePageSelection(`1, ${selection}`, 10)).toThrow(`Invalid page selection "${selection}"`);
+  });
+
+  it('rejects pages outside the document', () => {
+    expect(() => parsePageSelection('9-11', 10)).toThrow('Page 11 is out of range');
+  });
+});
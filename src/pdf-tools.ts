@@ -0,0 +1,538 @@
+/**
+ * PDF Generator Library - PDF Tools
+ *
+ * Page-level operations on existing PDFs: merge, split, extract, reorder,
+ * rotate, delete and insert blank pages or the pages of other PDFs
+ */
+
+type PDFLib = typeof import('pdf-lib');
+type PDFDocumentInstance = import('pdf-lib').PDFDocument;
+type PDFRefInstance = import('pdf-lib').PDFRef;
+type PDFObjectInstance = import('pdf-lib').PDFObject;
+
+/**
+ * PDF bytes accepted by the PDF tools
+ */
+export type PDFInput = Blob | ArrayBuffer | Uint8Array;
+
+/**
+ * Pages to operate on, numbered from 1
+ *
+ * Either page numbers or a range string such as `'1-3, 5, 8-'` (an open end
+ * runs to the last page, an open start from the first).
+ */
+export type PageSelection = number | number[] | string;
+
+/**
+ * Options for inserting blank pages
+ */
+export interface InsertBlankPagesOptions {
+  /** Blank pages inserted at each position (default: 1) */
+  count?: number;
+
+  /** Page size in points (default: the size of the preceding page, or the first page) */
+  size?: [number, number];
+}
+
+/**
+ * An outline item read from a source document
+ * @internal
+ */
+interface OutlineNode {
+  title: PDFObjectInstance;
+  pageRef: PDFRefInstance | null;
+  view: PDFObjectInstance[];
+  open: boolean;
+  color?: PDFObjectInstance;
+  flags?: PDFObjectInstance;
+  children: OutlineNode[];
+}
+
+/**
+ * Merge PDFs into one document, in order
+ *
+ * The document information of the first input is kept; the outlines of every
+ * input are appended in order.
+ */
+export async function mergePDFs(inputs: PDFInput[]): Promise<Uint8Array> {
+  if (inputs.length === 0) {
+    throw new Error('mergePDFs needs at least one PDF');
+  }
+
+  const lib = await import('pdf-lib');
+  const sources = await Promise.all(inputs.map((input) => loadPDF(lib, input)));
+  const merged = await assemble(lib, sources.map((doc) => ({ doc, indices: doc.getPageIndices() })));
+
+  return savePDF(merged);
+}
+
+/**
+ * Split a PDF into several documents
+ *
+ * @param ranges - One selection per output document (default: one document per page)
+ */
+export async function splitPDF(input: PDFInput, ranges?: PageSelection[]): Promise<Uint8Array[]> {
+  const lib = await import('pdf-lib');
+  const source = await loadPDF(lib, input);
+  const pageCount = source.getPageCount();
+  const selections = ranges ?? source.getPageIndices().map((index) => index + 1);
+
+  const parts: Uint8Array[] = [];
+  for (const selection of selections) {
+    const indices = parsePageSelection(selection, pageCount);
+    parts.push(await savePDF(await assemble(lib, [{ doc: source, indices }])));
+  }
+
+  return parts;
+}
+
+/**
+ * Copy selected pages into a new document, in the order given
+ */
+export async function extractPages(input: PDFInput, pages: PageSelection): Promise<Uint8Array> {
+  const lib = await import('pdf-lib');
+  const source = await loadPDF(lib, input);
+  const indices = parsePageSelection(pages, source.getPageCount());
+
+  return savePDF(await assemble(lib, [{ doc: source, indices }]));
+}
+
+/**
+ * Remove pages; outline entries that pointed to them are dropped
+ *
+ * @throws Error if every page would be removed
+ */
+export async function deletePages(input: PDFInput, pages: PageSelection): Promise<Uint8Array> {
+  const lib = await import('pdf-lib');
+  const source = await loadPDF(lib, input);
+  const removed = new Set(parsePageSelection(pages, source.getPageCount()));
+  const indices = source.getPageIndices().filter((index) => !removed.has(index));
+
+  if (indices.length === 0) {
+    throw new Error('deletePages cannot remove every page');
+  }
+
+  return savePDF(await assemble(lib, [{ doc: source, indices }]));
+}
+
+/**
+ * Put the pages in a new order
+ *
+ * @param order - Every page number exactly once, in the new order
+ */
+export async function reorderPages(input: PDFInput, order: number[]): Promise<Uint8Array> {
+  const lib = await import('pdf-lib');
+  const doc = await loadPDF(lib, input);
+  const pageCount = doc.getPageCount();
+  const indices = parsePageSelection(order, pageCount);
+
+  if (indices.length !== pageCount || new Set(indices).size !== pageCount) {
+    throw new Error(`reorderPages needs each of the ${pageCount} page numbers exactly once`);
+  }
+
+  // Pages are moved within the document, so outlines, links and forms keep their targets
+  const pages = doc.getPages();
+  for (let i = pageCount - 1; i >= 0; i--) doc.removePage(i);
+  indices.forEach((index, position) => doc.insertPage(position, pages[index]));
+
+  return savePDF(doc);
+}
+
+/**
+ * Rotate pages clockwise, adding to their current rotation
+ *
+ * @param pages - Pages to rotate (default: all)
+ */
+export async function rotatePages(
+  input: PDFInput,
+  angle: 90 | 180 | 270 | -90,
+  pages?: PageSelection
+): Promise<Uint8Array> {
+  if (angle % 90 !== 0) {
+    throw new Error('Rotation must be a multiple of 90 degrees');
+  }
+
+  const lib = await import('pdf-lib');
+  const doc = await loadPDF(lib, input);
+  const all = doc.getPages();
+  const indices = pages === undefined ? doc.getPageIndices() : parsePageSelection(pages, all.length);
+
+  new Set(indices).forEach((index) => {
+    const page = all[index];
+    page.setRotation(lib.degrees((((page.getRotation().angle + angle) % 360) + 360) % 360));
+  });
+
+  return savePDF(doc);
+}
+
+/**
+ * Insert blank pages after the given pages
+ *
+ * @param after - Page numbers to insert after; 0 inserts before the first page
+ */
+export async function insertBlankPages(
+  input: PDFInput,
+  after: number | number[],
+  options: InsertBlankPagesOptions = {}
+): Promise<Uint8Array> {
+  const { count = 1, size } = options;
+  const lib = await import('pdf-lib');
+  const doc = await loadPDF(lib, input);
+  const pageCount = doc.getPageCount();
+  const positions = Array.isArray(after) ? after : [after];
+
+  positions.forEach((position) => {
+    if (!Number.isInteger(position) || position < 0 || position > pageCount) {
+      throw new Error(`Cannot insert after page ${position}; the document has ${pageCount} pages`);
+    }
+  });
+
+  // Insert from the back, so earlier positions still refer to the original pages
+  const pages = doc.getPages();
+  [...positions].sort((a, b) => b - a).forEach((position) => {
+    const neighbor = pages[Math.max(position - 1, 0)];
+    const pageSize = size ?? [neighbor.getWidth(), neighbor.getHeight()];
+    for (let i = 0; i < count; i++) doc.insertPage(position, pageSize);
+  });
+
+  return savePDF(doc);
+}
+
+/**
+ * Copy the pages of other PDFs in front of and behind a document
+ *
+ * The document itself is kept, so its outline, links, form fields and
+ * structure tree still point at the right pages after the insertion.
+ */
+export async function insertPDFs(
+  input: PDFInput,
+  inserts: { prepend?: PDFInput[]; append?: PDFInput[] }
+): Promise<Uint8Array> {
+  const lib = await import('pdf-lib');
+  const doc = await loadPDF(lib, input);
+  const copy = async (source: PDFInput) => {
+    const sourceDoc = await loadPDF(lib, source);
+    const pages = await doc.copyPages(sourceDoc, sourceDoc.getPageIndices());
+    // The copied keys would point into this document's structure parent tree
+    pages.forEach((page) => page.node.delete(lib.PDFName.of('StructParents')));
+    return pages;
+  };
+
+  let position = 0;
+  for (const source of inserts.prepend || []) {
+    (await copy(source)).forEach((page) => doc.insertPage(position++, page));
+  }
+
+  for (const source of inserts.append || []) {
+    (await copy(source)).forEach((page) => doc.addPage(page));
+  }
+
+  return savePDF(doc);
+}
+
+/**
+ * Count the pages of a PDF
+ */
+export async function getPDFPageCount(input: PDFInput): Promise<number> {
+  const lib = await import('pdf-lib');
+  const doc = await loadPDF(lib, input);
+  return doc.getPageCount();
+}
+
+/**
+ * Convert a page selection into zero-based page indices
+ *
+ * @throws Error for malformed entries and pages outside the document
+ */
+export function parsePageSelection(selection: PageSelection, pageCount: number): number[] {
+  const pages: number[] = [];
+  const check = (page: number) => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new Error(`Page ${page} is out of range; the document has ${pageCount} pages`);
+    }
+    return page;
+  };
+
+  if (typeof selection === 'number') {
+    pages.push(check(selection));
+  } else if (Array.isArray(selection)) {
+    selection.forEach((page) => pages.push(check(page)));
+  } else {
+    selection.split(',').map((part) => part.trim()).filter(Boolean).forEach((part) => {
+      const token = part.replace(/\s+/g, '');
+      if (!/^\d+(-\d*)?$|^-\d+$/.test(token)) {
+        throw new Error(`Invalid page selection "${part}"; use page numbers and ranges such as '1-3, 5, 8-'`);
+      }
+
+      const match = token.match(/^(\d*)-(\d*)$/);
+      if (!match) {
+        pages.push(check(Number(token)));
+        return;
+      }
+
+      const start = check(match[1] ? Number(match[1]) : 1);
+      const end = check(match[2] ? Number(match[2]) : pageCount);
+      const step = start <= end ? 1 : -1;
+      for (let page = start; page !== end + step; page += step) pages.push(page);
+    });
+  }
+
+  if (pages.length === 0) {
+    throw new Error('The page selection is empty');
+  }
+
+  return pages.map((page) => page - 1);
+}
+
+/**
+ * @internal
+ */
+async function loadPDF(lib: PDFLib, input: PDFInput): Promise<PDFDocumentInstance> {
+  const bytes = input instanceof Uint8Array || input instanceof ArrayBuffer ? input : await input.arrayBuffer();
+  return lib.PDFDocument.load(bytes, { updateMetadata: false });
+}
+
+/**
+ * @internal
+ */
+function savePDF(doc: PDFDocumentInstance): Promise<Uint8Array> {
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+/**
+ * Build a new document from pages of source documents
+ *
+ * Copies the first source's document information and language, and every
+ * source's outline items whose target page was copied.
+ * @internal
+ */
+async function assemble(
+  lib: PDFLib,
+  sources: Array<{ doc: PDFDocumentInstance; indices: number[] }>
+): Promise<PDFDocumentInstance> {
+  const { PDFDict, PDFName } = lib;
+  const target = await lib.PDFDocument.create({ updateMetadata: false });
+  const outline: OutlineNode[] = [];
+
+  for (const { doc, indices } of sources) {
+    const copied = await target.copyPages(doc, indices);
+    const pageMap = new Map<PDFRefInstance, PDFRefInstance>();
+
+    copied.forEach((page, i) => {
+      target.addPage(page);
+      // The first copy of a page is the outline target
+      const sourceRef = doc.getPage(indices[i]).ref;
+      if (!pageMap.has(sourceRef)) pageMap.set(sourceRef, page.ref);
+    });
+
+    outline.push(...remapOutline(readOutline(lib, doc), pageMap));
+  }
+
+  const first = sources[0].doc;
+  const info = first.context.lookup(first.context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    const copy = target.context.obj({});
+    info.entries().forEach(([key, value]) => {
+      const resolved = first.context.lookup(value);
+      if (resolved && !(resolved instanceof PDFDict) && !(resolved instanceof lib.PDFStream)) copy.set(key, resolved);
+    });
+    target.context.trailerInfo.Info = target.context.register(copy);
+  }
+  target.setModificationDate(new Date());
+
+  const lang = first.catalog.lookup(PDFName.of('Lang'));
+  if (lang) target.catalog.set(PDFName.of('Lang'), lang);
+
+  if (outline.length > 0) {
+    writeOutline(lib, target, outline);
+    const pageMode = first.catalog.lookup(PDFName.of('PageMode'));
+    if (pageMode) target.catalog.set(PDFName.of('PageMode'), pageMode);
+  }
+
+  return target;
+}
+
+/**
+ * Read a document's outline tree with each item's target page
+ * @internal
+ */
+function readOutline(lib: PDFLib, doc: PDFDocumentInstance): OutlineNode[] {
+  const { PDFDict, PDFName, PDFNumber } = lib;
+  const outlines = doc.catalog.lookup(PDFName.of('Outlines'));
+  if (!(outlines instanceof PDFDict)) return [];
+
+  const visited = new Set<PDFObjectInstance>();
+
+  const readItems = (parent: import('pdf-lib').PDFDict): OutlineNode[] => {
+    const items: OutlineNode[] = [];
+    let ref = parent.get(PDFName.of('First'));
+
+    // Guard against cycles in malformed outlines
+    while (ref && !visited.has(ref)) {
+      visited.add(ref);
+      const item = doc.context.lookup(ref);
+      if (!(item instanceof PDFDict)) break;
+
+      const destination = resolveDestination(lib, doc, item);
+      const count = item.lookup(PDFName.of('Count'));
+
+      items.push({
+        title: item.lookup(PDFName.of('Title')) ?? lib.PDFHexString.fromText(''),
+        pageRef: destination.pageRef,
+        view: destination.view,
+        open: count instanceof PDFNumber && count.asNumber() > 0,
+        color: item.lookup(PDFName.of('C')),
+        flags: item.lookup(PDFName.of('F')),
+        children: readItems(item),
+      });
+
+      ref = item.get(PDFName.of('Next'));
+    }
+
+    return items;
+  };
+
+  return readItems(outlines);
+}
+
+/**
+ * Resolve an outline item's explicit or named destination (`/Dest` or a GoTo action)
+ * @internal
+ */
+function resolveDestination(
+  lib: PDFLib,
+  doc: PDFDocumentInstance,
+  item: import('pdf-lib').PDFDict
+): { pageRef: PDFRefInstance | null; view: PDFObjectInstance[] } {
+  const { PDFArray, PDFDict, PDFName, PDFRef } = lib;
+  let destination = item.lookup(PDFName.of('Dest'));
+
+  const action = item.lookup(PDFName.of('A'));
+  if (!destination && action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+    destination = action.lookup(PDFName.of('D'));
+  }
+
+  if (destination && !(destination instanceof PDFArray)) {
+    destination = lookupNamedDestination(lib, doc, destination);
+  }
+  if (destination instanceof PDFDict) {
+    destination = destination.lookup(PDFName.of('D'));
+  }
+  if (!(destination instanceof PDFArray) || destination.size() === 0) {
+    return { pageRef: null, view: [] };
+  }
+
+  const page = destination.get(0);
+  return {
+    pageRef: page instanceof PDFRef ? page : null,
+    view: destination.asArray().slice(1).map((value) => doc.context.lookup(value) ?? value),
+  };
+}
+
+/**
+ * Look a named destination up in the catalog's `/Dests` or the `/Dests` name tree
+ * @internal
+ */
+function lookupNamedDestination(
+  lib: PDFLib,
+  doc: PDFDocumentInstance,
+  name: PDFObjectInstance
+): PDFObjectInstance | undefined {
+  const { PDFArray, PDFDict, PDFHexString, PDFName, PDFString } = lib;
+
+  if (name instanceof PDFName) {
+    const dests = doc.catalog.lookup(PDFName.of('Dests'));
+    return dests instanceof PDFDict ? dests.lookup(name) : undefined;
+  }
+  if (!(name instanceof PDFString || name instanceof PDFHexString)) return undefined;
+
+  const key = name.decodeText();
+  const names = doc.catalog.lookup(PDFName.of('Names'));
+  const root = names instanceof PDFDict ? names.lookup(PDFName.of('Dests')) : undefined;
+
+  const search = (node: PDFObjectInstance | undefined, depth: number): PDFObjectInstance | undefined => {
+    if (!(node instanceof PDFDict) || depth > 32) return undefined;
+
+    const entries = node.lookup(PDFName.of('Names'));
+    if (entries instanceof PDFArray) {
+      for (let i = 0; i + 1 < entries.size(); i += 2) {
+        const entry = entries.lookup(i);
+        if ((entry instanceof PDFString || entry instanceof PDFHexString) && entry.decodeText() === key) {
+          return entries.lookup(i + 1);
+        }
+      }
+    }
+
+    const kids = node.lookup(PDFName.of('Kids'));
+    if (kids instanceof PDFArray) {
+      for (let i = 0; i < kids.size(); i++) {
+        const found = search(kids.lookup(i), depth + 1);
+        if (found) return found;
+      }
+    }
+
+    return undefined;
+  };
+
+  return search(root, 0);
+}
+
+/**
+ * Point outline items at the copied pages; items whose page was not copied
+ * are dropped and their children move up a level
+ * @internal
+ */
+function remapOutline(items: OutlineNode[], pageMap: Map<PDFRefInstance, PDFRefInstance>): OutlineNode[] {
+  return items.flatMap((item) => {
+    const children = remapOutline(item.children, pageMap);
+    const pageRef = item.pageRef ? pageMap.get(item.pageRef) : undefined;
+
+    return pageRef ? [{ ...item, pageRef, children }] : children;
+  });
+}
+
+/**
+ * Write an outline tree as the document's `/Outlines`
+ * @internal
+ */
+function writeOutline(lib: PDFLib, doc: PDFDocumentInstance, items: OutlineNode[]): void {
+  const { PDFName, PDFNumber } = lib;
+  const context = doc.context;
+
+  // Visible descendants, as counted by /Count
+  const countVisible = (nodes: OutlineNode[]): number =>
+    nodes.reduce((sum, node) => sum + 1 + (node.open ? countVisible(node.children) : 0), 0);
+
+  const writeLevel = (parentRef: PDFRefInstance, parent: import('pdf-lib').PDFDict, nodes: OutlineNode[]) => {
+    const refs = nodes.map(() => context.nextRef());
+
+    nodes.forEach((node, i) => {
+      const dict = context.obj({});
+      dict.set(PDFName.of('Title'), node.title);
+      dict.set(PDFName.of('Parent'), parentRef);
+      dict.set(PDFName.of('Dest'), context.obj([node.pageRef as PDFRefInstance, ...node.view]));
+      if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < nodes.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+      if (node.color) dict.set(PDFName.of('C'), node.color);
+      if (node.flags) dict.set(PDFName.of('F'), node.flags);
+
+      if (node.children.length > 0) {
+        const count = node.open ? countVisible(node.children) : -node.children.length;
+        dict.set(PDFName.of('Count'), PDFNumber.of(count));
+        writeLevel(refs[i], dict, node.children);
+      }
+
+      context.assign(refs[i], dict);
+    });
+
+    parent.set(PDFName.of('First'), refs[0]);
+    parent.set(PDFName.of('Last'), refs[refs.length - 1]);
+  };
+
+  const rootRef = context.nextRef();
+  const root = context.obj({ Type: 'Outlines' });
+  writeLevel(rootRef, root, items);
+  root.set(PDFName.of('Count'), PDFNumber.of(countVisible(items)));
+  context.assign(rootRef, root);
+  doc.catalog.set(PDFName.of('Outlines'), rootRef);
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { deflateSync } from 'zlib';
+import jsPDF from 'jspdf';
+import { PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { convertToPDFA, preflightPDFA } from './pdfa-handler';
+import { addTextLayerToPage } from './text-layer';
+
+/**
+ * A page shaped like the generator's output: a filled area standing in for the
+ * page raster, the invisible text layer and a link
+ */
+function createDocument(compress = false): jsPDF {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', compress });
+  pdf.setFillColor(240, 240, 240);
+  pdf.rect(10, 10, 190, 277, 'F');
+  addTextLayerToPage(
+    pdf,
+    [{ text: 'Searchable line', x: 0, y: 0, width: 120, height: 20, fontSize: 16 }],
+    { sliceTop: 0, sliceHeight: 1000, offsetX: 10, offsetY: 10, mmPerPx: 0.26 }
+  );
+  pdf.link(10, 10, 50, 10, { url: 'https://example.com' });
+  return pdf;
+}
+
+/**
+ * RGBA PNG, 8 pixels wide and 2 high: the left half opaque black text color,
+ * the right half fully transparent (black samples, as a canvas writes them)
+ */
+function createTransparentPNG(): Uint8Array {
+  const chunk = (type: string, data: Uint8Array) => {
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(8, 0);
+  header.writeUInt32BE(2, 4);
+  header.set([8, 6, 0, 0, 0], 8);
+
+  const row = [0, ...Array.from({ length: 8 }, (_, x) => [0, 0, 0, x < 4 ? 255 : 0]).flat()];
+  const pixels = Uint8Array.from([...row, ...row]);
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', new Uint8Array()),
+  ]);
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+describe('convertToPDFA', () => {
+  it.each(['PDF/A-1b', 'PDF/A-2b', 'PDF/A-3b'] as const)('makes a default document pass %s preflight', async (level) => {
+    const { bytes, report } = await convertToPDFA(new Uint8Array(createDocument().output('arraybuffer')), level);
+
+    expect(report.violations.filter((violation) => !violation.fixed)).toEqual([]);
+    expect(report.compliant).toBe(true);
+    expect((await preflightPDFA(bytes, level)).compliant).toBe(true);
+  });
+
+  it('reports visible text in an unembedded standard font', async () => {
+    const pdf = createDocument();
+    pdf.setFontSize(10);
+    pdf.text('1 / 1', 105, 292, { align: 'center' });
+
+    const { report } = await convertToPDFA(new Uint8Array(pdf.output('arraybuffer')), 'PDF/A-2b');
+
+    expect(report.compliant).toBe(false);
+    expect(report.violations.map((violation) => violation.rule)).toContain('font-embedding');
+    expect(report.violations.find((violation) => violation.rule === 'font-embedding')?.message).toContain('Helvetica');
+  });
+
+  it.each([false, true])('keeps the transparent areas of images unpainted in PDF/A-1b (compress: %s)', async (compress) => {
+    const pdf = createDocument(compress);
+    pdf.addImage(createTransparentPNG(), 'PNG', 20, 20, 80, 20);
+
+    const { bytes, report } = await convertToPDFA(new Uint8Array(pdf.output('arraybuffer')), 'PDF/A-1b');
+    expect(report.compliant).toBe(true);
+
+    const doc = await PDFDocument.load(bytes);
+    const images = doc.context
+      .enumerateIndirectObjects()
+      .map(([, object]) => object)
+      .filter((object): object is PDFRawStream =>
+        object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image') &&
+        object.dict.lookup(PDFName.of('ColorSpace')) === PDFName.of('DeviceRGB'));
+    expect(images).toHaveLength(1);
+
+    const [image] = images;
+    expect(image.dict.has(PDFName.of('SMask'))).toBe(false);
+
+    const mask = image.dict.lookup(PDFName.of('Mask'));
+    expect(mask).toBeInstanceOf(PDFRawStream);
+    expect((mask as PDFRawStream).dict.lookup(PDFName.of('ImageMask'))?.toString()).toBe('true');
+
+    // One byte per 8-pixel row: set bits mask out the transparent right half
+    expect(Array.from(decodePDFRawStream(mask as PDFRawStream).decode())).toEqual([0x0f, 0x0f]);
+  });
+});
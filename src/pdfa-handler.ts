@@ -0,0 +1,869 @@
+/**
+ * PDF Generator Library - PDF/A Handler
+ *
+ * Archival (PDF/A-1b, PDF/A-2b, PDF/A-3b) conversion and preflight for finished PDF bytes
+ */
+
+import type {
+  PDFConformance,
+  PDFAPreflightReport,
+  PDFAViolation,
+  PDFMetadata,
+} from './types';
+import { createSRGBProfile, SRGB_OUTPUT_CONDITION } from './color-profile';
+
+type PDFLib = typeof import('pdf-lib');
+type PDFDocumentInstance = import('pdf-lib').PDFDocument;
+
+/** Annotation flags that hide an annotation (Invisible, Hidden, NoView, ToggleNoView) */
+const HIDDEN_ANNOTATION_FLAGS = 1 | 2 | 32 | 256;
+
+/** Print annotation flag */
+const PRINT_ANNOTATION_FLAG = 4;
+
+/** Text render mode that neither fills nor strokes (invisible text) */
+const INVISIBLE_TEXT_MODE = 3;
+
+/**
+ * Text state that decides whether shown text is visible
+ * @internal
+ */
+interface TextState {
+  /** Font selected by the last `Tf` */
+  font?: import('pdf-lib').PDFDict;
+  /** Text render mode set by the last `Tr` */
+  mode: number;
+}
+
+/**
+ * Convert a finished PDF to PDF/A-1b, PDF/A-2b or PDF/A-3b
+ *
+ * Writes XMP metadata mirroring the document information (overridden by
+ * `metadata`, extended by the `extensionMetadata` rdf:Description elements),
+ * an sRGB ICC output intent and a file ID, makes annotations printable and,
+ * for PDF/A-1b, strips transparency. The converted document is
+ * preflighted; the report lists both the fixed and the remaining violations.
+ *
+ * @throws Error if the PDF is encrypted
+ */
+export async function convertToPDFA(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  conformance: PDFConformance,
+  metadata: PDFMetadata = {},
+  extensionMetadata: string[] = []
+): Promise<{ bytes: Uint8Array; report: PDFAPreflightReport }> {
+  const lib = await import('pdf-lib');
+  const doc = await lib.PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+  if (doc.isEncrypted) {
+    throw new Error(`Encrypted PDFs cannot be converted to ${conformance}`);
+  }
+
+  const fixed: PDFAViolation[] = [];
+  const part = getPart(conformance);
+
+  writeArchivalMetadata(lib, doc, part, metadata, extensionMetadata);
+  writeOutputIntent(lib, doc);
+
+  if (!doc.context.trailerInfo.ID) {
+    const id = createFileId();
+    doc.context.trailerInfo.ID = doc.context.obj([lib.PDFHexString.of(id), lib.PDFHexString.of(id)]);
+    fixed.push({ rule: 'document-id', message: 'Added the missing file identifier (trailer /ID)', fixed: true });
+  }
+
+  const annotationsFixed = fixAnnotationFlags(lib, doc);
+  if (annotationsFixed > 0) {
+    fixed.push({
+      rule: 'annotation-flags',
+      message: `Set the Print flag and cleared hidden flags on ${annotationsFixed} annotation(s)`,
+      fixed: true,
+    });
+  }
+
+  if (part === 1) {
+    const { changed, unmasked } = stripTransparency(lib, doc);
+    if (changed > 0) {
+      fixed.push({
+        rule: 'transparency',
+        message: `Removed transparency from ${changed} object(s); PDF/A-1 forbids it, ` +
+          'so semi-transparent watermarks are rendered opaque and soft-masked images get hard edges' +
+          (unmasked > 0 ? `; ${unmasked} image soft mask(s) could not be read and were dropped` : ''),
+        fixed: true,
+      });
+    }
+  }
+
+  const violations = [...fixed, ...checkConformance(lib, doc, conformance)];
+  const bytes = await doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+
+  return {
+    bytes,
+    report: {
+      conformance,
+      compliant: violations.every((violation) => violation.fixed),
+      violations,
+    },
+  };
+}
+
+/**
+ * Check a PDF against the PDF/A rules this library can verify, without modifying it
+ *
+ * Covers encryption, file ID, XMP metadata, output intent, embedding of the
+ * fonts visible text is drawn with, transparency (PDF/A-1), annotation flags
+ * and appearances, JavaScript and launch actions, embedded files (PDF/A-3:
+ * their associated file entries) and LZW compression. It is not a full
+ * validator; use a dedicated one (such as veraPDF) for certification.
+ */
+export async function preflightPDFA(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  conformance: PDFConformance
+): Promise<PDFAPreflightReport> {
+  const lib = await import('pdf-lib');
+  const doc = await lib.PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  const violations = checkConformance(lib, doc, conformance);
+
+  return { conformance, compliant: violations.length === 0, violations };
+}
+
+/**
+ * Collect the violations that remain in a loaded document
+ * @internal
+ */
+function checkConformance(lib: PDFLib, doc: PDFDocumentInstance, conformance: PDFConformance): PDFAViolation[] {
+  const { PDFArray, PDFDict, PDFName, PDFNumber, PDFStream } = lib;
+  const context = doc.context;
+  const part = getPart(conformance);
+  const violations: PDFAViolation[] = [];
+  const report = (rule: string, message: string) => violations.push({ rule, message, fixed: false });
+
+  if (context.trailerInfo.Encrypt) {
+    report('encryption', 'The document is encrypted; PDF/A forbids encryption');
+  }
+  if (!context.trailerInfo.ID) {
+    report('document-id', 'The trailer has no file identifier (/ID)');
+  }
+
+  const metadata = doc.catalog.lookup(PDFName.of('Metadata'));
+  if (!(metadata instanceof PDFStream)) {
+    report('xmp-metadata', 'The catalog has no XMP metadata stream');
+  }
+  const outputIntents = doc.catalog.lookup(PDFName.of('OutputIntents'));
+  if (!(outputIntents instanceof PDFArray) || outputIntents.size() === 0) {
+    report('output-intent', 'The catalog has no output intent with an ICC profile for device colors');
+  }
+
+  const unembeddedFonts = findUnembeddedFonts(lib, doc);
+  let transparentObjects = 0;
+  let javascriptActions = 0;
+  let lzwStreams = 0;
+
+  forEachDict(lib, doc, (dict, stream) => {
+    if (part === 1 && hasTransparency(lib, dict, stream)) {
+      transparentObjects++;
+    }
+
+    const action = dict.lookup(PDFName.of('S'));
+    if (action === PDFName.of('JavaScript') || action === PDFName.of('Launch') || dict.has(PDFName.of('JS'))) {
+      javascriptActions++;
+    }
+
+    if (stream) {
+      const filter = dict.lookup(PDFName.of('Filter'));
+      const filters = filter instanceof PDFArray ? filter.asArray() : [filter];
+      if (filters.includes(PDFName.of('LZWDecode'))) lzwStreams++;
+    }
+  });
+
+  if (unembeddedFonts.length > 0) {
+    report(
+      'font-embedding',
+      `Fonts used for visible text are not embedded: ${unembeddedFonts.join(', ')}`
+    );
+  }
+  if (transparentObjects > 0) {
+    report('transparency', `${transparentObjects} object(s) use transparency, which PDF/A-1 forbids`);
+  }
+  if (javascriptActions > 0) {
+    report('actions', `${javascriptActions} JavaScript or Launch action(s) found; PDF/A forbids them`);
+  }
+  if (lzwStreams > 0) {
+    report('compression', `${lzwStreams} stream(s) use LZW compression, which PDF/A forbids`);
+  }
+
+  const names = doc.catalog.lookup(PDFName.of('Names'));
+  if (part === 3) {
+    const unassociated = findUnassociatedFiles(lib, doc);
+    if (unassociated.length > 0) {
+      report(
+        'embedded-files',
+        `Embedded files need an AFRelationship, a MIME type and a catalog /AF entry in PDF/A-3: ${unassociated.join(', ')}`
+      );
+    }
+  } else if (names instanceof PDFDict && names.has(PDFName.of('EmbeddedFiles'))) {
+    report(
+      'embedded-files',
+      part === 1
+        ? 'PDF/A-1 forbids embedded files'
+        : 'PDF/A-2 only allows embedded files that are themselves PDF/A documents'
+    );
+  }
+
+  let hiddenAnnotations = 0;
+  let missingAppearances = 0;
+  doc.getPages().forEach((page) => {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) return;
+
+    annots.asArray().forEach((ref) => {
+      const annot = context.lookup(ref);
+      if (!(annot instanceof PDFDict)) return;
+
+      const subtype = annot.lookup(PDFName.of('Subtype'));
+      if (subtype === PDFName.of('Popup')) return;
+
+      const flags = annot.lookup(PDFName.of('F'));
+      const value = flags instanceof PDFNumber ? flags.asNumber() : 0;
+      if (!(value & PRINT_ANNOTATION_FLAG) || value & HIDDEN_ANNOTATION_FLAGS) hiddenAnnotations++;
+
+      if (part >= 2 && subtype !== PDFName.of('Link') && !annot.has(PDFName.of('AP')) && !isZeroSized(lib, annot)) {
+        missingAppearances++;
+      }
+    });
+  });
+
+  if (hiddenAnnotations > 0) {
+    report('annotation-flags', `${hiddenAnnotations} annotation(s) are hidden or not printable`);
+  }
+  if (missingAppearances > 0) {
+    report('annotation-appearance', `${missingAppearances} annotation(s) have no appearance stream`);
+  }
+
+  return violations;
+}
+
+/**
+ * Base names of the unembedded fonts that visible text is drawn with
+ *
+ * Follows `Tf` and the text render mode through the page contents, the form
+ * XObjects they paint and the annotation appearances. Fonts that are only
+ * declared in a resource dictionary, or only show text in render mode 3
+ * (the invisible text layer), are not reported.
+ * @internal
+ */
+function findUnembeddedFonts(lib: PDFLib, doc: PDFDocumentInstance): string[] {
+  const { PDFArray, PDFDict, PDFName, PDFStream } = lib;
+  const unembedded = new Set<string>();
+
+  const check = (font: import('pdf-lib').PDFDict) => {
+    if (!isEmbeddedFont(lib, font)) {
+      unembedded.add(String(font.lookup(PDFName.of('BaseFont')) || 'unnamed').replace(/^\//, ''));
+    }
+  };
+
+  const scan = (
+    streams: import('pdf-lib').PDFStream[],
+    resources: unknown,
+    state: TextState,
+    ancestors: Set<import('pdf-lib').PDFStream>
+  ) => {
+    const fonts = resources instanceof PDFDict ? resources.lookup(PDFName.of('Font')) : undefined;
+    const xobjects = resources instanceof PDFDict ? resources.lookup(PDFName.of('XObject')) : undefined;
+    const lookup = (dict: unknown, name: string | undefined) =>
+      dict instanceof PDFDict && name ? dict.lookup(PDFName.of(name)) : undefined;
+
+    let contents: Uint8Array;
+    try {
+      contents = concatBytes(streams.map((stream) => getStreamContents(lib, stream)));
+    } catch {
+      // Undecodable content: assume every font it can select is shown
+      if (fonts instanceof PDFDict) fonts.values().forEach((font) => font instanceof PDFDict && check(font));
+      return;
+    }
+
+    const saved: TextState[] = [];
+    let current = { ...state };
+
+    forEachOperator(contents, (operator, operands) => {
+      switch (operator) {
+        case 'q':
+          saved.push({ ...current });
+          break;
+        case 'Q':
+          current = saved.pop() || current;
+          break;
+        case 'Tf': {
+          const font = lookup(fonts, operands[0]);
+          current.font = font instanceof PDFDict ? font : undefined;
+          break;
+        }
+        case 'Tr':
+          current.mode = Number(operands[0]);
+          break;
+        case 'Tj':
+        case 'TJ':
+        case "'":
+        case '"':
+          if (current.font && current.mode !== INVISIBLE_TEXT_MODE) check(current.font);
+          break;
+        case 'Do': {
+          const xobject = lookup(xobjects, operands[0]);
+          if (xobject instanceof PDFStream && !ancestors.has(xobject) &&
+              xobject.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Form')) {
+            const own = xobject.dict.lookup(PDFName.of('Resources'));
+            scan([xobject], own || resources, current, new Set([...ancestors, xobject]));
+          }
+          break;
+        }
+      }
+    });
+  };
+
+  doc.getPages().forEach((page) => {
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray
+      ? contents.asArray().map((ref) => doc.context.lookup(ref)).filter((value) => value instanceof PDFStream)
+      : contents instanceof PDFStream ? [contents] : [];
+    const resources = page.node.getInheritableAttribute(PDFName.of('Resources'));
+    scan(streams as import('pdf-lib').PDFStream[], doc.context.lookup(resources), { mode: 0 }, new Set());
+
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) return;
+
+    annots.asArray().forEach((ref) => {
+      const annot = doc.context.lookup(ref);
+      const appearances = annot instanceof PDFDict ? annot.lookup(PDFName.of('AP')) : undefined;
+      const normal = appearances instanceof PDFDict ? appearances.lookup(PDFName.of('N')) : undefined;
+      const states = normal instanceof PDFDict ? normal.values().map((value) => doc.context.lookup(value)) : [normal];
+
+      states.forEach((appearance) => {
+        if (appearance instanceof PDFStream) {
+          scan([appearance], appearance.dict.lookup(PDFName.of('Resources')), { mode: 0 }, new Set([appearance]));
+        }
+      });
+    });
+  });
+
+  return Array.from(unembedded);
+}
+
+/**
+ * Whether a font dictionary carries its font program
+ * @internal
+ */
+function isEmbeddedFont(lib: PDFLib, font: import('pdf-lib').PDFDict): boolean {
+  const { PDFArray, PDFDict, PDFName } = lib;
+  const subtype = font.lookup(PDFName.of('Subtype'));
+
+  if (subtype === PDFName.of('Type3')) return true;
+  if (subtype === PDFName.of('Type0')) {
+    const descendants = font.lookup(PDFName.of('DescendantFonts'));
+    const descendant = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+    return descendant instanceof PDFDict && isEmbeddedFont(lib, descendant);
+  }
+
+  const descriptor = font.lookup(PDFName.of('FontDescriptor'));
+  return descriptor instanceof PDFDict &&
+    ['FontFile', 'FontFile2', 'FontFile3'].some((key) => descriptor.has(PDFName.of(key)));
+}
+
+/**
+ * Decoded bytes of a stream
+ * @internal
+ */
+function getStreamContents(lib: PDFLib, stream: import('pdf-lib').PDFStream): Uint8Array {
+  if (stream instanceof lib.PDFRawStream) return lib.decodePDFRawStream(stream).decode();
+  if (stream instanceof lib.PDFFlateStream) return stream.getUnencodedContents();
+  return stream.getContents();
+}
+
+/**
+ * @internal
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length + 1, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    bytes[offset + chunk.length] = 0x0a;
+    offset += chunk.length + 1;
+  });
+  return bytes;
+}
+
+/**
+ * Call back with each operator of a content stream and its operands
+ *
+ * Names keep no leading slash; strings, arrays and dictionaries are passed as
+ * empty placeholders, since no operator this module follows reads them.
+ * Inline image data is skipped.
+ * @internal
+ */
+function forEachOperator(bytes: Uint8Array, callback: (operator: string, operands: string[]) => void): void {
+  const isWhitespace = (c: number) => c === 0 || c === 9 || c === 10 || c === 12 || c === 13 || c === 32;
+  const isDelimiter = (c: number) => '()<>[]{}/%'.includes(String.fromCharCode(c));
+  const readRegular = (start: number) => {
+    let end = start;
+    while (end < bytes.length && !isWhitespace(bytes[end]) && !isDelimiter(bytes[end])) end++;
+    return end;
+  };
+
+  const operands: string[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (operand: string) => {
+    if (depth === 0) operands.push(operand);
+  };
+
+  while (i < bytes.length) {
+    const c = bytes[i];
+
+    if (isWhitespace(c)) {
+      i++;
+    } else if (c === 0x25) {
+      // % comment
+      while (i < bytes.length && bytes[i] !== 10 && bytes[i] !== 13) i++;
+    } else if (c === 0x28) {
+      // Literal string, with balanced parentheses and backslash escapes
+      let nesting = 0;
+      for (; i < bytes.length; i++) {
+        if (bytes[i] === 0x5c) i++;
+        else if (bytes[i] === 0x28) nesting++;
+        else if (bytes[i] === 0x29 && --nesting === 0) break;
+      }
+      i++;
+      push('');
+    } else if (c === 0x3c && bytes[i + 1] !== 0x3c) {
+      // Hex string
+      while (i < bytes.length && bytes[i] !== 0x3e) i++;
+      i++;
+      push('');
+    } else if (c === 0x5b || c === 0x3c) {
+      i += c === 0x5b ? 1 : 2;
+      depth++;
+    } else if (c === 0x5d || c === 0x3e) {
+      i += c === 0x5d ? 1 : 2;
+      depth = Math.max(0, depth - 1);
+      push('');
+    } else if (c === 0x2f) {
+      const end = readRegular(i + 1);
+      const name = String.fromCharCode(...bytes.subarray(i + 1, end));
+      push(name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+      i = end;
+    } else {
+      const end = Math.max(readRegular(i), i + 1);
+      const token = String.fromCharCode(...bytes.subarray(i, end));
+      i = end;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token) || token === 'true' || token === 'false' || token === 'null') {
+        push(token);
+      } else if (depth === 0) {
+        callback(token, operands.splice(0));
+
+        if (token === 'ID') {
+          // Inline image data runs to the next whitespace-delimited EI
+          i++;
+          while (i < bytes.length &&
+            !(isWhitespace(bytes[i - 1]) && bytes[i] === 0x45 && bytes[i + 1] === 0x49 &&
+              (i + 2 >= bytes.length || isWhitespace(bytes[i + 2])))) {
+            i++;
+          }
+          i += 2;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * @internal
+ */
+function getPart(conformance: PDFConformance): number {
+  return conformance === 'PDF/A-1b' ? 1 : conformance === 'PDF/A-2b' ? 2 : 3;
+}
+
+/**
+ * Names of embedded files missing what PDF/A-3 requires of associated files
+ * @internal
+ */
+function findUnassociatedFiles(lib: PDFLib, doc: PDFDocumentInstance): string[] {
+  const { PDFArray, PDFDict, PDFHexString, PDFName, PDFRef, PDFStream, PDFString } = lib;
+  const names = doc.catalog.lookup(PDFName.of('Names'));
+  const embeddedFiles = names instanceof PDFDict ? names.lookup(PDFName.of('EmbeddedFiles')) : undefined;
+  const entries = embeddedFiles instanceof PDFDict ? embeddedFiles.lookup(PDFName.of('Names')) : undefined;
+  if (!(entries instanceof PDFArray)) return [];
+
+  const af = doc.catalog.lookup(PDFName.of('AF'));
+  const associated = af instanceof PDFArray ? af.asArray() : [];
+  const unassociated: string[] = [];
+
+  for (let i = 0; i + 1 < entries.size(); i += 2) {
+    const ref = entries.get(i + 1);
+    const spec = doc.context.lookup(ref);
+    if (!(spec instanceof PDFDict)) continue;
+
+    const ef = spec.lookup(PDFName.of('EF'));
+    const file = ef instanceof PDFDict ? ef.lookup(PDFName.of('F')) : undefined;
+    const listed = ref instanceof PDFRef && associated.some((entry) => entry === ref);
+
+    if (!spec.has(PDFName.of('AFRelationship')) || !(file instanceof PDFStream) ||
+        !file.dict.has(PDFName.of('Subtype')) || !listed) {
+      const name = entries.lookup(i);
+      unassociated.push(name instanceof PDFHexString || name instanceof PDFString ? name.decodeText() : `#${i / 2 + 1}`);
+    }
+  }
+
+  return unassociated;
+}
+
+/**
+ * Write the document information dictionary and a matching XMP metadata stream
+ * @internal
+ */
+function writeArchivalMetadata(
+  lib: PDFLib,
+  doc: PDFDocumentInstance,
+  part: number,
+  metadata: PDFMetadata,
+  extensionMetadata: string[]
+): void {
+  const now = new Date();
+  const keywords = metadata.keywords?.join(', ') ?? doc.getKeywords();
+  const info = {
+    title: metadata.title ?? doc.getTitle(),
+    author: metadata.author ?? doc.getAuthor(),
+    subject: metadata.subject ?? doc.getSubject(),
+    creator: metadata.creator ?? doc.getCreator(),
+    producer: metadata.producer ?? doc.getProducer() ?? 'html-to-pdf-generator',
+    creationDate: metadata.creationDate ?? doc.getCreationDate() ?? now,
+  };
+
+  // Whole seconds, so the information dictionary and XMP dates agree exactly
+  const creationDate = new Date(Math.floor(info.creationDate.getTime() / 1000) * 1000);
+  const modificationDate = new Date(Math.floor(now.getTime() / 1000) * 1000);
+
+  if (info.title) doc.setTitle(info.title);
+  if (info.author) doc.setAuthor(info.author);
+  if (info.subject) doc.setSubject(info.subject);
+  if (keywords) doc.setKeywords([keywords]);
+  if (info.creator) doc.setCreator(info.creator);
+  doc.setProducer(info.producer);
+  doc.setCreationDate(creationDate);
+  doc.setModificationDate(modificationDate);
+
+  const xmpDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const alt = (value: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(value)}</rdf:li></rdf:Alt>`;
+
+  const properties = [
+    '<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">',
+    `<pdfaid:part>${part}</pdfaid:part>`,
+    '<pdfaid:conformance>B</pdfaid:conformance>',
+    '</rdf:Description>',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<dc:format>application/pdf</dc:format>',
+    info.title ? `<dc:title>${alt(info.title)}</dc:title>` : '',
+    info.author ? `<dc:creator><rdf:Seq><rdf:li>${escapeXML(info.author)}</rdf:li></rdf:Seq></dc:creator>` : '',
+    info.subject ? `<dc:description>${alt(info.subject)}</dc:description>` : '',
+    '</rdf:Description>',
+    '<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    `<xmp:CreateDate>${xmpDate(creationDate)}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${xmpDate(modificationDate)}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${xmpDate(modificationDate)}</xmp:MetadataDate>`,
+    info.creator ? `<xmp:CreatorTool>${escapeXML(info.creator)}</xmp:CreatorTool>` : '',
+    '</rdf:Description>',
+    '<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">',
+    `<pdf:Producer>${escapeXML(info.producer)}</pdf:Producer>`,
+    keywords ? `<pdf:Keywords>${escapeXML(keywords)}</pdf:Keywords>` : '',
+    '</rdf:Description>',
+    ...extensionMetadata,
+  ].filter(Boolean);
+
+  setMetadataStream(lib, doc, properties.join('\n'));
+}
+
+/**
+ * Replace the catalog's XMP metadata stream with the given rdf:Description elements
+ *
+ * The stream is left uncompressed, as PDF/A-1 requires.
+ */
+export function setMetadataStream(lib: PDFLib, doc: PDFDocumentInstance, descriptions: string): void {
+  const xmp = [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    descriptions,
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+
+  const stream = doc.context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' });
+  doc.catalog.set(lib.PDFName.of('Metadata'), doc.context.register(stream));
+}
+
+/**
+ * Add the sRGB output intent (replacing any existing one)
+ * @internal
+ */
+function writeOutputIntent(lib: PDFLib, doc: PDFDocumentInstance): void {
+  const { PDFName, PDFString } = lib;
+  const context = doc.context;
+  const profileRef = context.register(context.flateStream(createSRGBProfile(), { N: 3 }));
+
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    DestOutputProfile: profileRef,
+  });
+  outputIntent.set(PDFName.of('OutputConditionIdentifier'), PDFString.of(SRGB_OUTPUT_CONDITION));
+  outputIntent.set(PDFName.of('Info'), PDFString.of(SRGB_OUTPUT_CONDITION));
+  outputIntent.set(PDFName.of('RegistryName'), PDFString.of('http://www.color.org'));
+
+  doc.catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]));
+}
+
+/**
+ * Make every annotation printable and visible
+ * @internal
+ */
+function fixAnnotationFlags(lib: PDFLib, doc: PDFDocumentInstance): number {
+  const { PDFArray, PDFDict, PDFName, PDFNumber } = lib;
+  let changed = 0;
+
+  doc.getPages().forEach((page) => {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) return;
+
+    annots.asArray().forEach((ref) => {
+      const annot = doc.context.lookup(ref);
+      if (!(annot instanceof PDFDict) || annot.lookup(PDFName.of('Subtype')) === PDFName.of('Popup')) return;
+
+      const flags = annot.lookup(PDFName.of('F'));
+      const current = flags instanceof PDFNumber ? flags.asNumber() : 0;
+      const next = (current | PRINT_ANNOTATION_FLAG) & ~HIDDEN_ANNOTATION_FLAGS;
+
+      if (next !== current) {
+        annot.set(PDFName.of('F'), PDFNumber.of(next));
+        changed++;
+      }
+    });
+  });
+
+  return changed;
+}
+
+/**
+ * Remove constant alpha, soft masks, blend modes and transparency groups
+ *
+ * Image soft masks become 1-bit explicit masks, so transparent image areas
+ * (text drawn from a canvas, the page raster over stationery) stay unpainted
+ * instead of showing the black of their color samples.
+ *
+ * @returns Objects changed, and image soft masks that could not be converted
+ * @internal
+ */
+function stripTransparency(lib: PDFLib, doc: PDFDocumentInstance): { changed: number; unmasked: number } {
+  const { PDFName, PDFNumber } = lib;
+  let changed = 0;
+  let unmasked = 0;
+
+  forEachDict(lib, doc, (dict, stream) => {
+    if (!hasTransparency(lib, dict, stream)) return;
+
+    ['CA', 'ca'].forEach((key) => {
+      if (dict.has(PDFName.of(key))) dict.set(PDFName.of(key), PDFNumber.of(1));
+    });
+    if (dict.has(PDFName.of('BM'))) dict.set(PDFName.of('BM'), PDFName.of('Normal'));
+    if (dict.has(PDFName.of('SMask'))) {
+      if (stream) {
+        const mask = toStencilMask(lib, doc, dict.lookup(PDFName.of('SMask')));
+        if (mask) dict.set(PDFName.of('Mask'), mask);
+        else unmasked++;
+        dict.delete(PDFName.of('SMask'));
+      } else {
+        dict.set(PDFName.of('SMask'), PDFName.of('None'));
+      }
+    }
+    dict.delete(PDFName.of('SMaskInData'));
+
+    const group = dict.lookup(PDFName.of('Group'));
+    if (group instanceof lib.PDFDict && group.lookup(PDFName.of('S')) === PDFName.of('Transparency')) {
+      dict.delete(PDFName.of('Group'));
+    }
+
+    changed++;
+  });
+
+  return { changed, unmasked };
+}
+
+/**
+ * Convert an image soft mask into a 1-bit explicit mask, which PDF/A-1 allows
+ *
+ * Pixels at least half opaque are painted. Only 8-bit masks, unpredicted or
+ * PNG-predicted, are read.
+ *
+ * @returns The new mask, or undefined when the soft mask cannot be read
+ * @internal
+ */
+function toStencilMask(lib: PDFLib, doc: PDFDocumentInstance, smask: unknown): import('pdf-lib').PDFRef | undefined {
+  const { PDFDict, PDFName, PDFNumber, PDFRawStream } = lib;
+  if (!(smask instanceof PDFRawStream)) return undefined;
+
+  const read = (dict: unknown, key: string, fallback: number) => {
+    const value = dict instanceof PDFDict ? dict.lookup(PDFName.of(key)) : undefined;
+    return value instanceof PDFNumber ? value.asNumber() : fallback;
+  };
+  const width = read(smask.dict, 'Width', 0);
+  const height = read(smask.dict, 'Height', 0);
+  // Decode parameters only apply to a filter (jsPDF writes them on unfiltered masks too)
+  const filtered = smask.dict.has(PDFName.of('Filter'));
+  const predictor = filtered ? read(smask.dict.lookup(PDFName.of('DecodeParms')), 'Predictor', 1) : 1;
+  if (width <= 0 || height <= 0 || read(smask.dict, 'BitsPerComponent', 8) !== 8) return undefined;
+  if (predictor !== 1 && predictor < 10) return undefined;
+
+  let alpha: Uint8Array;
+  try {
+    alpha = lib.decodePDFRawStream(smask).decode();
+  } catch {
+    return undefined;
+  }
+  if (predictor >= 10) alpha = removePNGPredictor(alpha, width, height);
+  if (alpha.length < width * height) return undefined;
+
+  const rowBytes = Math.ceil(width / 8);
+  const bits = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // A set bit masks the pixel out
+      if (alpha[y * width + x] < 128) bits[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+
+  return doc.context.register(doc.context.flateStream(bits, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: width,
+    Height: height,
+    ImageMask: true,
+    BitsPerComponent: 1,
+  }));
+}
+
+/**
+ * Undo PNG row filters on one-byte-per-pixel samples
+ * @internal
+ */
+function removePNGPredictor(data: Uint8Array, columns: number, rows: number): Uint8Array {
+  const samples = new Uint8Array(columns * rows);
+
+  for (let y = 0; y < rows && (y + 1) * (columns + 1) <= data.length; y++) {
+    const filter = data[y * (columns + 1)];
+    for (let x = 0; x < columns; x++) {
+      const i = y * columns + x;
+      const left = x > 0 ? samples[i - 1] : 0;
+      const up = y > 0 ? samples[i - columns] : 0;
+      const upLeft = x > 0 && y > 0 ? samples[i - columns - 1] : 0;
+
+      let prediction = 0;
+      if (filter === 1) prediction = left;
+      else if (filter === 2) prediction = up;
+      else if (filter === 3) prediction = (left + up) >> 1;
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const [a, b, c] = [left, up, upLeft].map((value) => Math.abs(estimate - value));
+        prediction = a <= b && a <= c ? left : b <= c ? up : upLeft;
+      }
+
+      samples[i] = (data[y * (columns + 1) + 1 + x] + prediction) & 0xff;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Check a dictionary for transparency that PDF/A-1 forbids
+ * @internal
+ */
+function hasTransparency(lib: PDFLib, dict: import('pdf-lib').PDFDict, stream: boolean): boolean {
+  const { PDFDict, PDFName, PDFNumber } = lib;
+
+  const alpha = ['CA', 'ca'].some((key) => {
+    const value = dict.lookup(PDFName.of(key));
+    return value instanceof PDFNumber && value.asNumber() < 1;
+  });
+  const blendMode = dict.lookup(PDFName.of('BM'));
+  const softMask = dict.lookup(PDFName.of('SMask'));
+  const group = dict.lookup(PDFName.of('Group'));
+
+  return alpha ||
+    (blendMode !== undefined && blendMode !== PDFName.of('Normal') && blendMode !== PDFName.of('Compatible')) ||
+    (softMask !== undefined && (stream || softMask !== PDFName.of('None'))) ||
+    dict.has(PDFName.of('SMaskInData')) ||
+    (group instanceof PDFDict && group.lookup(PDFName.of('S')) === PDFName.of('Transparency'));
+}
+
+/**
+ * Visit every dictionary in the document, including nested and stream dictionaries
+ * @internal
+ */
+function forEachDict(
+  lib: PDFLib,
+  doc: PDFDocumentInstance,
+  callback: (dict: import('pdf-lib').PDFDict, stream: boolean) => void
+): void {
+  const { PDFArray, PDFDict, PDFStream } = lib;
+
+  const visit = (value: unknown) => {
+    if (value instanceof PDFStream) {
+      callback(value.dict, true);
+      value.dict.values().forEach(visit);
+    } else if (value instanceof PDFDict) {
+      callback(value, false);
+      value.values().forEach(visit);
+    } else if (value instanceof PDFArray) {
+      value.asArray().forEach(visit);
+    }
+  };
+
+  doc.context.enumerateIndirectObjects().forEach(([, object]) => visit(object));
+}
+
+/**
+ * @internal
+ */
+function isZeroSized(lib: PDFLib, annot: import('pdf-lib').PDFDict): boolean {
+  const rect = annot.lookup(lib.PDFName.of('Rect'));
+  if (!(rect instanceof lib.PDFArray)) return true;
+
+  const [x1, y1, x2, y2] = rect.asArray().map((value) => (value instanceof lib.PDFNumber ? value.asNumber() : 0));
+  return x1 === x2 && y1 === y2;
+}
+
+/**
+ * Random 16-byte file identifier as hex (uniqueness only, not security-relevant)
+ * @internal
+ */
+function createFileId(): string {
+  const bytes = new Uint8Array(16);
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, i) => (bytes[i] = Math.floor(Math.random() * 256)));
+  }
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+export function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
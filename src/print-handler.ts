@@ -0,0 +1,217 @@
+/**
+ * PDF Generator Library - Print Handler
+ *
+ * Bleed, printer's marks and page boxes for print production
+ */
+
+import type jsPDF from 'jspdf';
+import type { PDFPageConfig, PrintMarksOptions } from './types';
+import { PRINT_MARK_LENGTH, getPrintMarkOffset } from './utils';
+
+/** Registration color: full coverage on every separation (CMYK) */
+const REGISTRATION: [number, number, number, number] = [1, 1, 1, 1];
+
+/** Color bar patches (CMYK): process colors, their overprints and black tints */
+const COLOR_BAR_PATCHES: Array<[number, number, number, number]> = [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [0, 0, 0, 1],
+  [1, 1, 0, 0],
+  [1, 0, 1, 0],
+  [0, 1, 1, 0],
+  [0, 0, 0, 0.75],
+  [0, 0, 0, 0.5],
+  [0, 0, 0, 0.25],
+];
+
+/** Hairline width for marks in mm (0.25pt) */
+const MARK_LINE_WIDTH = 0.088;
+
+/**
+ * Millimetres the page raster should extend past each edge of the content area
+ */
+export interface BleedEdges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Resolve `printMarks` into the marks to draw (`true` means crop marks only)
+ */
+export function resolvePrintMarks(printMarks: boolean | PrintMarksOptions | undefined): Required<PrintMarksOptions> | null {
+  if (!printMarks) return null;
+
+  const marks = printMarks === true ? {} : printMarks;
+  return {
+    cropMarks: marks.cropMarks ?? true,
+    registrationMarks: marks.registrationMarks ?? false,
+    colorBars: marks.colorBars ?? false,
+  };
+}
+
+/**
+ * Paint the bleed box of the current page with a background color
+ *
+ * Coordinates are relative to the trimmed page, so the bleed lies at negative
+ * offsets and past the page size.
+ */
+export function fillBleed(pdf: jsPDF, config: PDFPageConfig, color: [number, number, number]): void {
+  const { bleed, width, height } = config;
+
+  pdf.saveGraphicsState();
+  pdf.setFillColor(color[0], color[1], color[2]);
+  pdf.rect(-bleed, -bleed, width + 2 * bleed, height + 2 * bleed, 'F');
+  pdf.restoreGraphicsState();
+}
+
+/**
+ * Draw crop marks, registration marks and color bars around the current page
+ *
+ * Marks sit in the slug outside the bleed, in registration color so they
+ * print on every separation.
+ */
+export function drawPrintMarks(pdf: jsPDF, config: PDFPageConfig, marks: Required<PrintMarksOptions>): void {
+  const { width, height } = config;
+  const offset = getPrintMarkOffset(config.bleed);
+  const far = offset + PRINT_MARK_LENGTH;
+
+  pdf.saveGraphicsState();
+  pdf.setLineWidth(MARK_LINE_WIDTH);
+  pdf.setDrawColor(...REGISTRATION);
+
+  if (marks.cropMarks) {
+    [0, width].forEach((x) => {
+      const outward = x === 0 ? -1 : 1;
+      [0, height].forEach((y) => {
+        const downward = y === 0 ? -1 : 1;
+        pdf.line(x + outward * offset, y, x + outward * far, y);
+        pdf.line(x, y + downward * offset, x, y + downward * far);
+      });
+    });
+  }
+
+  if (marks.registrationMarks) {
+    const center = offset + PRINT_MARK_LENGTH / 2;
+    const radius = PRINT_MARK_LENGTH / 2 - 0.5;
+    const targets: Array<[number, number]> = [
+      [width / 2, -center],
+      [width / 2, height + center],
+      [-center, height / 2],
+      [width + center, height / 2],
+    ];
+
+    targets.forEach(([x, y]) => {
+      pdf.circle(x, y, radius, 'S');
+      pdf.circle(x, y, radius / 2, 'S');
+      pdf.line(x - radius - 0.5, y, x + radius + 0.5, y);
+      pdf.line(x, y - radius - 0.5, x, y + radius + 0.5);
+    });
+  }
+
+  if (marks.colorBars) {
+    // Along the bottom, between the left crop marks and the center registration mark
+    const size = PRINT_MARK_LENGTH;
+    const start = far;
+    const fits = Math.max(0, Math.floor((width / 2 - size - start) / size));
+
+    COLOR_BAR_PATCHES.slice(0, fits).forEach(([c, m, y, k], index) => {
+      pdf.setFillColor(c, m, y, k);
+      pdf.rect(start + index * size, height + offset, size, size, 'F');
+    });
+  }
+
+  pdf.restoreGraphicsState();
+}
+
+/**
+ * Stretch the outermost pixels of a page raster into the bleed
+ *
+ * Content that reaches the trim edge (zero margin) would otherwise leave a
+ * white sliver when the trimming is slightly off.
+ *
+ * @param pxPerMm - Canvas pixels per millimetre of the placed raster
+ */
+export function extendIntoBleed(canvas: HTMLCanvasElement, edges: BleedEdges, pxPerMm: number): HTMLCanvasElement {
+  const top = Math.round(edges.top * pxPerMm);
+  const right = Math.round(edges.right * pxPerMm);
+  const bottom = Math.round(edges.bottom * pxPerMm);
+  const left = Math.round(edges.left * pxPerMm);
+  if (!top && !right && !bottom && !left) return canvas;
+
+  const { width, height } = canvas;
+  const extended = document.createElement('canvas');
+  extended.width = width + left + right;
+  extended.height = height + top + bottom;
+
+  const ctx = extended.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.drawImage(canvas, left, top);
+
+  // Sides first, then top and bottom across the widened rows, which fills the corners
+  if (left) ctx.drawImage(canvas, 0, 0, 1, height, 0, top, left, height);
+  if (right) ctx.drawImage(canvas, width - 1, 0, 1, height, left + width, top, right, height);
+  if (top) ctx.drawImage(extended, 0, top, extended.width, 1, 0, 0, extended.width, top);
+  if (bottom) {
+    ctx.drawImage(extended, 0, top + height - 1, extended.width, 1, 0, top + height, extended.width, bottom);
+  }
+
+  return extended;
+}
+
+/**
+ * Parse a computed `rgb()`/`rgba()` color; null when it is transparent
+ */
+export function parseComputedColor(value: string): [number, number, number] | null {
+  const match = value.match(/rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/);
+  if (!match) return null;
+
+  const alpha = match[4] === undefined
+    ? 1
+    : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+  if (alpha === 0) return null;
+
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/**
+ * Background color behind an element: its own, or the nearest ancestor's
+ *
+ * @returns White when nothing up to the root paints a background
+ */
+export function getEffectiveBackground(element: HTMLElement): [number, number, number] {
+  const view = element.ownerDocument.defaultView || window;
+  for (let current: HTMLElement | null = element; current; current = current.parentElement) {
+    const color = parseComputedColor(view.getComputedStyle(current).backgroundColor);
+    if (color) return color;
+  }
+  return [255, 255, 255];
+}
+
+/**
+ * Enlarge the MediaBox of every page and write its TrimBox and BleedBox
+ *
+ * The trimmed page keeps its coordinates, so the MediaBox gets a negative
+ * origin and content, links and fields stay where they are.
+ */
+export async function setPrintBoxes(pdfBytes: Uint8Array | ArrayBuffer, config: PDFPageConfig): Promise<Uint8Array> {
+  const { PDFDocument } = await import('pdf-lib');
+  const doc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const toPt = (mm: number) => (mm * 72) / 25.4;
+
+  const width = toPt(config.width);
+  const height = toPt(config.height);
+  const bleed = toPt(config.bleed);
+  const media = toPt(config.mediaOffset);
+
+  doc.getPages().forEach((page) => {
+    page.setMediaBox(-media, -media, width + 2 * media, height + 2 * media);
+    page.setBleedBox(-bleed, -bleed, width + 2 * bleed, height + 2 * bleed);
+    page.setTrimBox(0, 0, width, height);
+  });
+
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import jsPDF from 'jspdf';
+import { PermissionFlag, getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { encryptPDF } from './security-handler';
+
+/**
+ * Open bytes with pdf.js and return its permissions and the first page's text
+ */
+async function open(bytes: Uint8Array, password: string) {
+  const doc = await getDocument({ data: bytes.slice(), password, verbosity: 0 }).promise;
+  const content = await (await doc.getPage(1)).getTextContent();
+  const text = content.items.map((item) => ('str' in item ? item.str : '')).join('');
+  return { permissions: await doc.getPermissions(), text };
+}
+
+describe('encryptPDF', () => {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  pdf.text('Confidential report', 20, 20);
+  const source = new Uint8Array(pdf.output('arraybuffer'));
+
+  it.each([128, 256] as const)('writes %i-bit encryption that pdf.js opens with either password', async (strength) => {
+    const bytes = await encryptPDF(source, {
+      enabled: true,
+      userPassword: 'user-secret',
+      ownerPassword: 'owner-secret',
+      encryptionStrength: strength,
+      permissions: { printing: 'lowResolution', fillingForms: true, contentAccessibility: true },
+    });
+
+    for (const password of ['user-secret', 'owner-secret']) {
+      const { permissions, text } = await open(bytes, password);
+      expect(text).toBe('Confidential report');
+      expect(permissions?.sort((a, b) => a - b)).toEqual([
+        PermissionFlag.PRINT,
+        PermissionFlag.FILL_INTERACTIVE_FORMS,
+        PermissionFlag.COPY_FOR_ACCESSIBILITY,
+      ]);
+    }
+
+    await expect(open(bytes, 'wrong')).rejects.toMatchObject({ name: 'PasswordException' });
+  });
+});
@@ -0,0 +1,556 @@
+/**
+ * PDF Generator Library - Security Handler
+ *
+ * Standard security handler encryption (RC4-128 / AES-256) applied to
+ * finished PDF bytes
+ */
+
+import type { PDFObject } from 'pdf-lib';
+import type { PDFSecurityOptions, PDFSecurityPermissions } from './types';
+
+/** Padding string from the PDF specification (Algorithm 2) */
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/** Permission bits of the /P entry (bit 1 is the least significant bit) */
+const PERMISSION_BITS = {
+  print: 1 << 2,
+  modify: 1 << 3,
+  copy: 1 << 4,
+  annotate: 1 << 5,
+  fillForms: 1 << 8,
+  accessibility: 1 << 9,
+  assemble: 1 << 10,
+  printHighResolution: 1 << 11,
+};
+
+/** Bits 7-8 and 13-32 are reserved and must be set */
+const RESERVED_PERMISSION_BITS = 0xfffff0c0;
+
+/** Permissions used when `securityOptions.permissions` is not set */
+const DEFAULT_PERMISSIONS: PDFSecurityPermissions = {
+  printing: 'highResolution',
+  copying: true,
+  contentAccessibility: true,
+};
+
+/**
+ * Options for {@link encryptPDF}
+ */
+export interface EncryptPDFOptions {
+  /** Web Crypto implementation (defaults to `globalThis.crypto`) */
+  crypto?: Crypto;
+}
+
+/**
+ * Map permission options to the signed 32-bit /P value of the Encrypt dictionary
+ */
+export function getPermissionFlags(permissions: PDFSecurityPermissions = DEFAULT_PERMISSIONS): number {
+  let flags = RESERVED_PERMISSION_BITS;
+
+  if (permissions.printing === 'lowResolution' || permissions.printing === 'highResolution') {
+    flags |= PERMISSION_BITS.print;
+  }
+  if (permissions.printing === 'highResolution') {
+    flags |= PERMISSION_BITS.printHighResolution;
+  }
+  if (permissions.modifying) flags |= PERMISSION_BITS.modify;
+  if (permissions.copying) flags |= PERMISSION_BITS.copy;
+  if (permissions.annotating) flags |= PERMISSION_BITS.annotate;
+  if (permissions.fillingForms) flags |= PERMISSION_BITS.fillForms;
+  if (permissions.contentAccessibility) flags |= PERMISSION_BITS.accessibility;
+  if (permissions.documentAssembly) flags |= PERMISSION_BITS.assemble;
+
+  return flags | 0;
+}
+
+/**
+ * Encrypt a finished PDF with the standard security handler
+ *
+ * `encryptionStrength: 128` writes RC4-128 (V2/R3, PDF 1.4); `256` (default)
+ * writes AES-256 (V5/R6, PDF 1.7 extension level 8). Every string and stream is encrypted and
+ * the Encrypt dictionary and file ID are added to the trailer. Without an
+ * owner password a random one is used, so permissions cannot be lifted.
+ *
+ * @throws Error if the PDF is already encrypted or Web Crypto is unavailable
+ */
+export async function encryptPDF(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  security: PDFSecurityOptions,
+  options: EncryptPDFOptions = {}
+): Promise<Uint8Array> {
+  const webCrypto = options.crypto || getWebCrypto();
+  const { PDFDocument, PDFArray, PDFDict, PDFHexString, PDFName, PDFRawStream, PDFStream, PDFString, PDFHeader } =
+    await import('pdf-lib');
+
+  const doc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  if (doc.isEncrypted) {
+    throw new Error('PDF is already encrypted');
+  }
+
+  const context = doc.context;
+  const strength = security.encryptionStrength || 256;
+  const userPassword = security.userPassword || '';
+  const ownerPassword = security.ownerPassword || toHex(randomBytes(webCrypto, 16));
+  const permissions = getPermissionFlags(security.permissions);
+
+  // Reuse the file ID of the source document when it has one
+  let fileId: Uint8Array;
+  const existingId = context.lookup(context.trailerInfo.ID);
+  const firstId = existingId instanceof PDFArray ? existingId.get(0) : undefined;
+  if (firstId instanceof PDFHexString || firstId instanceof PDFString) {
+    fileId = firstId.asBytes();
+  } else {
+    fileId = randomBytes(webCrypto, 16);
+    const hexId = toHex(fileId);
+    context.trailerInfo.ID = context.obj([PDFHexString.of(hexId), PDFHexString.of(hexId)]);
+  }
+
+  const handler = strength === 128
+    ? createRC4Handler(userPassword, ownerPassword, permissions, fileId)
+    : await createAES256Handler(webCrypto, userPassword, ownerPassword, permissions);
+
+  // Raise the header version to the one the security handler requires
+  const [major, minor] = handler.version;
+  if (compareVersion(readPDFVersion(pdfBytes), [major, minor]) < 0) {
+    context.header = PDFHeader.forVersion(major, minor);
+  }
+
+  // Strings are replaced by encrypted hex strings; dictionaries and arrays are encrypted in place
+  const encryptValue = async (value: PDFObject, objectNumber: number, generation: number): Promise<PDFObject> => {
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+      const encrypted = await handler.encrypt(value.asBytes(), objectNumber, generation);
+      return PDFHexString.of(toHex(encrypted));
+    }
+    if (value instanceof PDFDict) {
+      // Signature Contents stay in clear text so the signature can be filled in later
+      const isSignature = value.get(PDFName.of('Type')) === PDFName.of('Sig');
+      for (const [key, entry] of value.entries()) {
+        if (isSignature && key === PDFName.of('Contents')) continue;
+        value.set(key, await encryptValue(entry, objectNumber, generation));
+      }
+    } else if (value instanceof PDFArray) {
+      for (let i = 0; i < value.size(); i++) {
+        value.set(i, await encryptValue(value.get(i), objectNumber, generation));
+      }
+    }
+    return value;
+  };
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      await encryptValue(object.dict, ref.objectNumber, ref.generationNumber);
+      const contents = await handler.encrypt(object.getContents(), ref.objectNumber, ref.generationNumber);
+      context.assign(ref, PDFRawStream.of(object.dict, contents));
+    } else {
+      context.assign(ref, await encryptValue(object, ref.objectNumber, ref.generationNumber));
+    }
+  }
+
+  // Added after the walk so the Encrypt dictionary itself stays in clear text
+  const encryptDict = context.obj({});
+  Object.entries(handler.dictionary).forEach(([key, value]) => {
+    const entry = value instanceof Uint8Array
+      ? PDFHexString.of(toHex(value))
+      : typeof value === 'string' ? PDFName.of(value) : value;
+    encryptDict.set(PDFName.of(key), context.obj(entry as any));
+  });
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+
+  if (handler.extensionLevel) {
+    doc.catalog.set(
+      PDFName.of('Extensions'),
+      context.obj({ ADBE: { BaseVersion: PDFName.of('1.7'), ExtensionLevel: handler.extensionLevel } })
+    );
+  }
+
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+/**
+ * Object encryption and Encrypt dictionary entries of one security handler revision
+ * @internal
+ */
+interface SecurityHandler {
+  /** Minimum PDF version for this handler */
+  version: [number, number];
+  /** Adobe extension level written alongside a lower base version */
+  extensionLevel?: number;
+  /** Encrypt dictionary entries (strings are names, bytes are hex strings) */
+  dictionary: Record<string, string | number | boolean | Uint8Array | object>;
+  /** Encrypt the bytes of a string or stream in the given object */
+  encrypt(data: Uint8Array, objectNumber: number, generation: number): Promise<Uint8Array>;
+}
+
+/**
+ * Standard security handler revision 3 (RC4, 128-bit key)
+ * @internal
+ */
+function createRC4Handler(
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number,
+  fileId: Uint8Array
+): SecurityHandler {
+  const userPadded = padPassword(userPassword);
+
+  // Algorithm 3: owner password entry
+  let ownerKey = md5(padPassword(ownerPassword));
+  for (let i = 0; i < 50; i++) ownerKey = md5(ownerKey);
+
+  let owner = rc4(ownerKey, userPadded);
+  for (let i = 1; i <= 19; i++) owner = rc4(xorKey(ownerKey, i), owner);
+
+  // Algorithm 2: file encryption key
+  let fileKey = md5(concatBytes(userPadded, owner, int32LE(permissions), fileId));
+  for (let i = 0; i < 50; i++) fileKey = md5(fileKey);
+
+  // Algorithm 5: user password entry
+  let user = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, fileId)));
+  for (let i = 1; i <= 19; i++) user = rc4(xorKey(fileKey, i), user);
+
+  return {
+    version: [1, 4],
+    dictionary: {
+      Filter: 'Standard',
+      V: 2,
+      R: 3,
+      Length: 128,
+      O: owner,
+      U: concatBytes(user, new Uint8Array(16)),
+      P: permissions,
+    },
+    encrypt: async (data, objectNumber, generation) => {
+      // Algorithm 1: per-object key
+      const objectKey = md5(concatBytes(fileKey, new Uint8Array([
+        objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff,
+        generation & 0xff, (generation >> 8) & 0xff,
+      ])));
+      return rc4(objectKey, data);
+    },
+  };
+}
+
+/**
+ * Standard security handler revision 6 (AES-256)
+ * @internal
+ */
+async function createAES256Handler(
+  webCrypto: Crypto,
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number
+): Promise<SecurityHandler> {
+  const subtle = webCrypto.subtle;
+  const fileKey = randomBytes(webCrypto, 32);
+  const userBytes = saslPassword(userPassword);
+  const ownerBytes = saslPassword(ownerPassword);
+  const zeroIv = new Uint8Array(16);
+
+  // Algorithm 8: user password entries
+  const userValidationSalt = randomBytes(webCrypto, 8);
+  const userKeySalt = randomBytes(webCrypto, 8);
+  const user = concatBytes(
+    await hashR6(subtle, userBytes, userValidationSalt),
+    userValidationSalt,
+    userKeySalt
+  );
+  const userEncryptedKey = await aesCbcNoPadding(
+    subtle, await hashR6(subtle, userBytes, userKeySalt), zeroIv, fileKey
+  );
+
+  // Algorithm 9: owner password entries (salted with the user entry)
+  const ownerValidationSalt = randomBytes(webCrypto, 8);
+  const ownerKeySalt = randomBytes(webCrypto, 8);
+  const owner = concatBytes(
+    await hashR6(subtle, ownerBytes, ownerValidationSalt, user),
+    ownerValidationSalt,
+    ownerKeySalt
+  );
+  const ownerEncryptedKey = await aesCbcNoPadding(
+    subtle, await hashR6(subtle, ownerBytes, ownerKeySalt, user), zeroIv, fileKey
+  );
+
+  // Algorithm 10: encrypted copy of the permissions (ECB of one block == CBC with a zero IV)
+  const perms = concatBytes(
+    int32LE(permissions),
+    new Uint8Array([0xff, 0xff, 0xff, 0xff]),
+    new Uint8Array([0x54, 0x61, 0x64, 0x62]), // 'T' (metadata encrypted) + 'adb'
+    randomBytes(webCrypto, 4)
+  );
+  const encryptedPerms = await aesCbcNoPadding(subtle, fileKey, zeroIv, perms);
+
+  const cryptoKey = await subtle.importKey('raw', fileKey as BufferSource, { name: 'AES-CBC' }, false, ['encrypt']);
+
+  return {
+    version: [1, 7],
+    extensionLevel: 8,
+    dictionary: {
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: owner,
+      U: user,
+      OE: ownerEncryptedKey,
+      UE: userEncryptedKey,
+      Perms: encryptedPerms,
+      P: permissions,
+      EncryptMetadata: true,
+    },
+    encrypt: async (data) => {
+      // AESV3: random IV prepended, PKCS#7 padding (Web Crypto default)
+      const iv = randomBytes(webCrypto, 16);
+      const encrypted = await subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource);
+      return concatBytes(iv, new Uint8Array(encrypted));
+    },
+  };
+}
+
+/**
+ * Algorithm 2.B: hash of a password for revision 6
+ * @internal
+ */
+async function hashR6(
+  subtle: SubtleCrypto,
+  password: Uint8Array,
+  salt: Uint8Array,
+  userKey: Uint8Array = new Uint8Array(0)
+): Promise<Uint8Array> {
+  let k: Uint8Array = new Uint8Array(
+    await subtle.digest('SHA-256', concatBytes(password, salt, userKey) as BufferSource)
+  );
+  let e: Uint8Array = new Uint8Array(0);
+
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, k, userKey);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+
+    e = await aesCbcNoPadding(subtle, k.subarray(0, 16), k.subarray(16, 32), k1);
+
+    // The first 16 bytes as a big-endian number mod 3 equals their byte sum mod 3
+    let sum = 0;
+    for (let i = 0; i < 16; i++) sum += e[i];
+    const algorithm = ['SHA-256', 'SHA-384', 'SHA-512'][sum % 3];
+
+    k = new Uint8Array(await subtle.digest(algorithm, e as BufferSource));
+  }
+
+  return k.subarray(0, 32);
+}
+
+/**
+ * AES-CBC without padding for block-aligned input
+ *
+ * Web Crypto always pads, so the trailing padding block is dropped.
+ * @internal
+ */
+async function aesCbcNoPadding(
+  subtle: SubtleCrypto,
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  const cryptoKey = await subtle.importKey('raw', key as BufferSource, { name: 'AES-CBC' }, false, ['encrypt']);
+  const encrypted = await subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource);
+  return new Uint8Array(encrypted, 0, data.length);
+}
+
+/**
+ * Resolve the Web Crypto implementation of the current environment
+ * @internal
+ */
+function getWebCrypto(): Crypto {
+  const webCrypto = typeof globalThis !== 'undefined' ? globalThis.crypto : undefined;
+  if (!webCrypto || !webCrypto.subtle) {
+    throw new Error(
+      'PDF encryption requires the Web Crypto API (available in secure browser contexts and Node.js 19+)'
+    );
+  }
+  return webCrypto;
+}
+
+/**
+ * Pad or truncate a password to 32 bytes (revisions 2-4, Latin-1)
+ * @internal
+ */
+function padPassword(password: string): Uint8Array {
+  const padded = new Uint8Array(32);
+  const length = Math.min(password.length, 32);
+  for (let i = 0; i < length; i++) padded[i] = password.charCodeAt(i) & 0xff;
+  padded.set(PASSWORD_PADDING.subarray(0, 32 - length), length);
+  return padded;
+}
+
+/**
+ * UTF-8 password for revision 6, normalized and truncated to 127 bytes
+ * @internal
+ */
+function saslPassword(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC')).slice(0, 127);
+}
+
+/**
+ * Read the header version of a PDF file
+ * @internal
+ */
+function readPDFVersion(pdfBytes: Uint8Array | ArrayBuffer): [number, number] {
+  const bytes = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  const header = String.fromCharCode(...Array.from(bytes.subarray(0, 16)));
+  const match = header.match(/%PDF-(\d+)\.(\d+)/);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : [1, 0];
+}
+
+/**
+ * @internal
+ */
+function compareVersion(a: [number, number], b: [number, number]): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+/**
+ * @internal
+ */
+function randomBytes(webCrypto: Crypto, length: number): Uint8Array {
+  return webCrypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * @internal
+ */
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+/**
+ * @internal
+ */
+function int32LE(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >> 24) & 0xff]);
+}
+
+/**
+ * @internal
+ */
+function xorKey(key: Uint8Array, value: number): Uint8Array {
+  return key.map((byte) => byte ^ value);
+}
+
+/**
+ * @internal
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * RC4 stream cipher (encryption and decryption are the same operation)
+ * @internal
+ */
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    output[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+  }
+
+  return output;
+}
+
+/** MD5 per-round shift amounts */
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+/** MD5 per-round constants: floor(abs(sin(i + 1)) * 2^32) */
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+/**
+ * MD5 digest (Web Crypto does not provide it; needed by the RC4 handler)
+ * @internal
+ */
+function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(data);
+  buffer[data.length] = 0x80;
+
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89 | 0;
+  let c0 = 0x98badcfe | 0;
+  let d0 = 0x10325476;
+  const words = new Int32Array(16);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getInt32(offset + i * 4, true);
+
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      f = (f + a + MD5_CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((f << MD5_SHIFTS[i]) | (f >>> (32 - MD5_SHIFTS[i])))) | 0;
+    }
+
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => digestView.setInt32(i * 4, word, true));
+  return digest;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createHash } from 'crypto';
+import jsPDF from 'jspdf';
+import forge from 'node-forge';
+import { signPDF } from './signature-handler';
+
+/**
+ * Self-signed PEM key and certificate
+ */
+function createCredentials(): { privateKey: string; certificate: string; cert: forge.pki.Certificate } {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date(Date.UTC(2024, 0, 1));
+  cert.validity.notAfter = new Date(Date.UTC(2034, 0, 1));
+  const subject = [{ name: 'commonName', value: 'Test Signer' }];
+  cert.setSubject(subject);
+  cert.setIssuer(subject);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  return {
+    privateKey: forge.pki.privateKeyToPem(keys.privateKey),
+    certificate: forge.pki.certificateToPem(cert),
+    cert,
+  };
+}
+
+describe('signPDF', () => {
+  it('signs every byte except the Contents string with a matching CMS digest', async () => {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    pdf.text('Contract', 20, 20);
+    const { privateKey, certificate, cert } = createCredentials();
+
+    const signed = await signPDF(new Uint8Array(pdf.output('arraybuffer')), {
+      enabled: true,
+      privateKey,
+      certificate,
+      reason: 'Approval',
+      appearance: { x: 20, y: 250, width: 70, height: 20 },
+    });
+    const text = Buffer.from(signed).toString('latin1');
+
+    // ByteRange covers the file up to and after the <hex> Contents string
+    const byteRange = /\/ByteRange \[(\d+) (\d+) (\d+) (\d+) *\]/.exec(text)!.slice(1).map(Number);
+    const contentsStart = text.indexOf('<', text.indexOf('/Contents <', text.indexOf('/ByteRange [')));
+    const contentsEnd = text.indexOf('>', contentsStart) + 1;
+    expect(byteRange).toEqual([0, contentsStart, contentsEnd, signed.length - contentsEnd]);
+
+    const signedBytes = Buffer.concat([signed.subarray(0, byteRange[1]), signed.subarray(byteRange[2])]);
+    // The reserved space is zero-padded after the DER
+    const der = Buffer.from(text.slice(contentsStart + 1, contentsEnd - 1), 'hex').toString('binary');
+    const p7 = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(der, { parseAllBytes: false })) as forge.pkcs7.PkcsSignedData & {
+      rawCapture: { authenticatedAttributes: forge.asn1.Asn1[]; signature: string };
+    };
+    const { authenticatedAttributes, signature } = p7.rawCapture;
+
+    // The messageDigest attribute is the SHA-256 of the covered bytes
+    const messageDigest = authenticatedAttributes.find((attribute) => {
+      const [oid] = attribute.value as forge.asn1.Asn1[];
+      return forge.asn1.derToOid(oid.value as string) === forge.pki.oids.messageDigest;
+    })!;
+    const [, values] = messageDigest.value as forge.asn1.Asn1[];
+    const [digest] = values.value as forge.asn1.Asn1[];
+    expect(Buffer.from(digest.value as string, 'binary').toString('hex'))
+      .toBe(createHash('sha256').update(signedBytes).digest('hex'));
+
+    // The RSA signature covers the authenticated attributes
+    const attributes = forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, authenticatedAttributes);
+    const md = forge.md.sha256.create().update(forge.asn1.toDer(attributes).getBytes());
+    expect((cert.publicKey as forge.pki.rsa.PublicKey).verify(md.digest().bytes(), signature)).toBe(true);
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * PDF Generator Library - Signature Handler
+ *
+ * Digital signatures (PKCS#7 / CMS detached, adbe.pkcs7.detached) for
+ * finished PDF bytes
+ */
+
+import type forge from 'node-forge';
+import type { PDFContext, PDFDocument, PDFFont, PDFImage, PDFRawStream } from 'pdf-lib';
+import type { PDFConformance, PDFSignatureOptions } from './types';
+
+/** Bytes reserved for the CMS signature when not configured */
+const DEFAULT_SIGNATURE_LENGTH = 8192;
+
+/** Placeholder written for each unknown ByteRange entry */
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+/** Millimetres to PDF points */
+const MM_TO_PT = 72 / 25.4;
+
+/** Canvas pixels per point when the appearance text is rasterized */
+const APPEARANCE_RASTER_SCALE = 4;
+
+/** Latin spellings of Cyrillic and Greek letters, for fonts limited to WinAnsi */
+const TRANSLITERATION: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', ё: 'e', є: 'ye', ж: 'zh', з: 'z', и: 'i', і: 'i',
+  ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ў: 'u',
+  ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm', ν: 'n',
+  ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+/**
+ * Signing key and certificates loaded from the signature options
+ * @internal
+ */
+interface SigningCredentials {
+  key: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  chain: forge.pki.Certificate[];
+  commonName: string;
+}
+
+/**
+ * Sign a finished PDF with a CMS detached signature
+ *
+ * Shorthand for {@link addSignaturePlaceholder} followed by {@link applySignature}.
+ */
+export async function signPDF(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  signature: PDFSignatureOptions
+): Promise<Uint8Array> {
+  const prepared = await addSignaturePlaceholder(pdfBytes, signature);
+  return applySignature(prepared, signature);
+}
+
+/**
+ * Add a signature field whose ByteRange and Contents are placeholders
+ *
+ * The signature dictionary carries reason, location, contact info and signing
+ * time. With `appearance` the widget gets a visible box on the given page,
+ * otherwise the signature is invisible. The box text uses `appearance.font`
+ * when given, else Helvetica. Helvetica is not embedded, so with `conformance`
+ * the text is rasterized instead where a canvas is available. Other
+ * post-processing that rewrites the file (such as encryption) must run between
+ * this step and {@link applySignature}.
+ *
+ * @throws Error if `appearance.font` is given without `appearance.fontkit`
+ */
+export async function addSignaturePlaceholder(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  signature: PDFSignatureOptions,
+  conformance?: PDFConformance
+): Promise<Uint8Array> {
+  const { PDFDocument, PDFArray, PDFHexString, PDFName, PDFNumber, PDFString } = await import('pdf-lib');
+
+  if (signature.appearance?.font && !signature.appearance.fontkit) {
+    throw new Error('appearance.font requires a fontkit instance (e.g. @pdf-lib/fontkit)');
+  }
+
+  const credentials = await loadCredentials(signature);
+  const doc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const context = doc.context;
+  const pages = doc.getPages();
+  const signerName = signature.name || credentials.commonName;
+  const signingTime = new Date();
+  const signatureLength = signature.signatureLength || DEFAULT_SIGNATURE_LENGTH;
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'adbe.pkcs7.detached',
+  });
+  signatureDict.set(PDFName.of('ByteRange'), context.obj([
+    PDFNumber.of(0),
+    PDFName.of(BYTE_RANGE_PLACEHOLDER),
+    PDFName.of(BYTE_RANGE_PLACEHOLDER),
+    PDFName.of(BYTE_RANGE_PLACEHOLDER),
+  ]));
+  signatureDict.set(PDFName.of('Contents'), PDFHexString.of('0'.repeat(signatureLength * 2)));
+  signatureDict.set(PDFName.of('M'), PDFString.fromDate(signingTime));
+  if (signerName) signatureDict.set(PDFName.of('Name'), PDFHexString.fromText(signerName));
+  if (signature.reason) signatureDict.set(PDFName.of('Reason'), PDFHexString.fromText(signature.reason));
+  if (signature.location) signatureDict.set(PDFName.of('Location'), PDFHexString.fromText(signature.location));
+  if (signature.contactInfo) {
+    signatureDict.set(PDFName.of('ContactInfo'), PDFHexString.fromText(signature.contactInfo));
+  }
+  const signatureRef = context.register(signatureDict);
+
+  // Widget annotation, placed on the appearance page or invisibly on the first page
+  const appearance = signature.appearance;
+  const pageIndex = appearance
+    ? Math.min(Math.max(1, appearance.page || pages.length), pages.length) - 1
+    : 0;
+  const page = pages[pageIndex];
+  let rect = [0, 0, 0, 0];
+
+  const widget = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    F: 4,
+    P: page.ref,
+    V: signatureRef,
+  });
+  const fieldNames = doc.getForm().getFields().map((field) => field.getName());
+  widget.set(PDFName.of('T'), PDFString.of(getUniqueFieldName(fieldNames)));
+
+  if (appearance) {
+    const width = appearance.width * MM_TO_PT;
+    const height = appearance.height * MM_TO_PT;
+    const x = appearance.x * MM_TO_PT;
+    const y = page.getHeight() - appearance.y * MM_TO_PT - height;
+    rect = [x, y, x + width, y + height];
+
+    const lines = [
+      `Digitally signed by ${signerName || 'unknown signer'}`,
+      `Date: ${signingTime.toISOString().replace('T', ' ').substring(0, 19)} UTC`,
+      signature.reason ? `Reason: ${signature.reason}` : '',
+      signature.location ? `Location: ${signature.location}` : '',
+    ].filter(Boolean);
+
+    widget.set(PDFName.of('AP'), context.obj({
+      N: context.register(await createAppearance(doc, appearance, lines, width, height, !!conformance)),
+    }));
+  }
+
+  widget.set(PDFName.of('Rect'), context.obj(rect));
+  const widgetRef = context.register(widget);
+
+  const annots = page.node.lookup(PDFName.of('Annots'));
+  if (annots instanceof PDFArray) {
+    annots.push(widgetRef);
+  } else {
+    page.node.set(PDFName.of('Annots'), context.obj([widgetRef]));
+  }
+
+  // Register the field in the AcroForm (SigFlags 3: signatures exist, append only)
+  const acroForm = doc.catalog.getOrCreateAcroForm();
+  acroForm.addField(widgetRef);
+  acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+  // Object streams would hide the placeholders from the byte-level signing step
+  return doc.save({ useObjectStreams: false, addDefaultPage: false });
+}
+
+/**
+ * Fill the ByteRange and Contents placeholders with a CMS detached signature
+ *
+ * The signed bytes are everything except the hex Contents string. The CMS
+ * structure uses SHA-256 and carries the signing certificate and its chain,
+ * with signed contentType, messageDigest and signingTime attributes.
+ *
+ * @throws Error if no placeholder is found or the signature does not fit
+ */
+export async function applySignature(
+  pdfBytes: Uint8Array,
+  signature: PDFSignatureOptions
+): Promise<Uint8Array> {
+  const forge = (await import('node-forge')).default;
+  const credentials = await loadCredentials(signature);
+  const bytes = new Uint8Array(pdfBytes);
+  const text = bytesToBinary(bytes);
+
+  const placeholder = `/${BYTE_RANGE_PLACEHOLDER}`;
+  const byteRangeStart = text.lastIndexOf(`/ByteRange [ 0 ${placeholder} ${placeholder} ${placeholder} ]`);
+  if (byteRangeStart === -1) {
+    throw new Error('No signature placeholder found in PDF');
+  }
+
+  const contentsStart = text.indexOf('/Contents <', byteRangeStart) + '/Contents '.length;
+  const contentsEnd = text.indexOf('>', contentsStart) + 1;
+  if (contentsStart < '/Contents '.length || contentsEnd === 0) {
+    throw new Error('No signature Contents placeholder found in PDF');
+  }
+
+  // Write the real ByteRange, padded to the placeholder length
+  const byteRange = [0, contentsStart, contentsEnd, bytes.length - contentsEnd];
+  const placeholderText = `[ 0 ${placeholder} ${placeholder} ${placeholder} ]`;
+  const byteRangeText = `[${byteRange.join(' ')}]`.padEnd(placeholderText.length, ' ');
+  const byteRangeOffset = byteRangeStart + '/ByteRange '.length;
+  for (let i = 0; i < byteRangeText.length; i++) {
+    bytes[byteRangeOffset + i] = byteRangeText.charCodeAt(i);
+  }
+
+  // Sign everything except the Contents hex string
+  const signedData = bytesToBinary(bytes.subarray(0, contentsStart)) + bytesToBinary(bytes.subarray(contentsEnd));
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(signedData);
+  p7.addCertificate(credentials.certificate);
+  credentials.chain.forEach((certificate) => p7.addCertificate(certificate));
+  p7.addSigner({
+    key: credentials.key,
+    certificate: credentials.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime, value: new Date() as any },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const cms = forge.util.bytesToHex(forge.asn1.toDer(p7.toAsn1()).getBytes());
+  const available = contentsEnd - contentsStart - 2;
+  if (cms.length > available) {
+    throw new Error(
+      `Signature needs ${cms.length / 2} bytes but only ${available / 2} are reserved; increase signatureLength`
+    );
+  }
+
+  const contentsText = cms.padEnd(available, '0');
+  for (let i = 0; i < contentsText.length; i++) {
+    bytes[contentsStart + 1 + i] = contentsText.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * First `SignatureN` name not taken by a field of the document
+ * @internal
+ */
+function getUniqueFieldName(existing: string[]): string {
+  const taken = new Set(existing);
+  let index = 1;
+  while (taken.has(`Signature${index}`)) index++;
+  return `Signature${index}`;
+}
+
+/**
+ * Rewrite text into characters the font can encode
+ *
+ * The standard fonts only cover WinAnsi. Accented letters outside it lose
+ * their accents, Cyrillic and Greek are transliterated, and anything else
+ * becomes '?', so a non-Latin signer name or reason still gets a box.
+ * @internal
+ */
+function toEncodableText(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  const canEncode = (value: string) => Array.from(value).every((char) => supported.has(char.codePointAt(0)!));
+
+  return Array.from(text).map((char) => {
+    if (canEncode(char)) return char;
+
+    const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    if (base && canEncode(base)) return base;
+
+    const lower = base.toLowerCase();
+    const latin = TRANSLITERATION[lower];
+    if (latin !== undefined) {
+      return base === lower ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+    }
+
+    return '?';
+  }).join('');
+}
+
+/**
+ * Build the visible signature box in the font the options call for
+ *
+ * An embedded `appearance.font` wins. Archival output without one gets the
+ * text as an opaque image so no unembedded font is used; outside a browser
+ * it falls back to Helvetica, which the PDF/A preflight then reports.
+ * @internal
+ */
+async function createAppearance(
+  doc: PDFDocument,
+  appearance: NonNullable<PDFSignatureOptions['appearance']>,
+  lines: string[],
+  width: number,
+  height: number,
+  archival: boolean
+): Promise<PDFRawStream> {
+  const { StandardFonts } = await import('pdf-lib');
+
+  if (appearance.font && appearance.fontkit) {
+    doc.registerFontkit(appearance.fontkit);
+    const font = await doc.embedFont(appearance.font, { subset: true });
+    return createAppearanceStream(doc.context, font, lines.map((line) => toEncodableText(font, line)), width, height);
+  }
+
+  if (archival && typeof document !== 'undefined') {
+    const image = await rasterizeAppearanceText(doc, lines, width, height);
+    if (image) return createImageAppearanceStream(doc.context, image, width, height);
+  }
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  return createAppearanceStream(doc.context, font, lines.map((line) => toEncodableText(font, line)), width, height);
+}
+
+/**
+ * Font size, line height and padding of the box text
+ * @internal
+ */
+function getAppearanceLayout(lineCount: number, height: number) {
+  const padding = 4;
+  const fontSize = Math.max(4, Math.min(9, (height - padding * 2) / (lineCount * 1.25)));
+  return { padding, fontSize, lineHeight: fontSize * 1.25 };
+}
+
+/**
+ * Content stream operators for the box border
+ * @internal
+ */
+function getBorderOperators(width: number, height: number): string[] {
+  return [
+    '0.2 0.3 0.6 RG',
+    '0.75 w',
+    `0.5 0.5 ${(width - 1).toFixed(2)} ${(height - 1).toFixed(2)} re S`,
+  ];
+}
+
+/**
+ * Draw the box text onto a white canvas and embed it as a JPEG
+ *
+ * JPEG has no alpha channel, so the image needs no soft mask (which PDF/A-1
+ * forbids). Returns null when no 2D context is available.
+ * @internal
+ */
+async function rasterizeAppearanceText(
+  doc: PDFDocument,
+  lines: string[],
+  width: number,
+  height: number
+): Promise<PDFImage | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * APPEARANCE_RASTER_SCALE));
+  canvas.height = Math.max(1, Math.round(height * APPEARANCE_RASTER_SCALE));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const { padding, fontSize, lineHeight } = getAppearanceLayout(lines.length, height);
+  ctx.scale(APPEARANCE_RASTER_SCALE, APPEARANCE_RASTER_SCALE);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#1a1a1a';
+  ctx.font = `${fontSize}px Helvetica, Arial, sans-serif`;
+  ctx.textBaseline = 'alphabetic';
+  lines.forEach((line, index) => ctx.fillText(line, padding, padding + fontSize + index * lineHeight));
+
+  return doc.embedJpg(canvas.toDataURL('image/jpeg', 0.92));
+}
+
+/**
+ * Draw a rasterized text image inside the bordered box as a form XObject
+ * @internal
+ */
+function createImageAppearanceStream(
+  context: PDFContext,
+  image: PDFImage,
+  width: number,
+  height: number
+): PDFRawStream {
+  const content = [
+    'q',
+    `${width.toFixed(2)} 0 0 ${height.toFixed(2)} 0 0 cm`,
+    '/Im1 Do',
+    'Q',
+    'q',
+    ...getBorderOperators(width, height),
+    'Q',
+  ].join('\n');
+
+  return context.stream(content, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [0, 0, width, height],
+    Resources: { XObject: { Im1: image.ref } },
+  });
+}
+
+/**
+ * Draw a bordered box with one line of text per entry as a form XObject
+ * @internal
+ */
+function createAppearanceStream(
+  context: PDFContext,
+  font: PDFFont,
+  lines: string[],
+  width: number,
+  height: number
+): PDFRawStream {
+  const { padding, fontSize, lineHeight } = getAppearanceLayout(lines.length, height);
+
+  const content = [
+    'q',
+    ...getBorderOperators(width, height),
+    'BT',
+    '0.1 0.1 0.1 rg',
+    `/F1 ${fontSize.toFixed(2)} Tf`,
+    ...lines.map((line, index) => {
+      const y = height - padding - fontSize - index * lineHeight;
+      return `1 0 0 1 ${padding} ${y.toFixed(2)} Tm ${font.encodeText(line).toString()} Tj`;
+    }),
+    'ET',
+    'Q',
+  ].join('\n');
+
+  return context.stream(content, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [0, 0, width, height],
+    Resources: { Font: { F1: font.ref } },
+  });
+}
+
+/**
+ * Load the private key and certificates from PKCS#12 or PEM options
+ * @internal
+ */
+async function loadCredentials(signature: PDFSignatureOptions): Promise<SigningCredentials> {
+  const forge = (await import('node-forge')).default;
+  const { pki } = forge;
+  let key: forge.pki.rsa.PrivateKey | undefined;
+  let certificates: forge.pki.Certificate[] = [];
+
+  if (signature.p12) {
+    const der = bytesToBinary(new Uint8Array(signature.p12));
+    const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), signature.passphrase || '');
+
+    const keyBags = [
+      ...(p12.getBags({ bagType: pki.oids.pkcs8ShroudedKeyBag })[pki.oids.pkcs8ShroudedKeyBag] || []),
+      ...(p12.getBags({ bagType: pki.oids.keyBag })[pki.oids.keyBag] || []),
+    ];
+    key = keyBags.find((bag) => bag.key)?.key;
+    certificates = (p12.getBags({ bagType: pki.oids.certBag })[pki.oids.certBag] || [])
+      .map((bag) => bag.cert)
+      .filter((cert): cert is forge.pki.Certificate => !!cert);
+  } else if (signature.privateKey && signature.certificate) {
+    key = pki.privateKeyFromPem(signature.privateKey);
+    certificates = (signature.certificate.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [])
+      .map((pem) => pki.certificateFromPem(pem));
+  } else {
+    throw new Error('Signing requires either p12 or privateKey and certificate');
+  }
+
+  if (!key) {
+    throw new Error('No private key found for signing');
+  }
+
+  // The signing certificate is the one whose public key matches the private key
+  const signingKey = key;
+  const certificate = certificates.find((cert) => 'n' in cert.publicKey && cert.publicKey.n.equals(signingKey.n))
+    || certificates[0];
+  if (!certificate) {
+    throw new Error('No certificate found for signing');
+  }
+
+  const commonName = certificate.subject.getField('CN');
+
+  return {
+    key: signingKey,
+    certificate,
+    chain: certificates.filter((cert) => cert !== certificate),
+    commonName: commonName ? decodeAttribute(forge, String(commonName.value)) : '',
+  };
+}
+
+/**
+ * Convert bytes to a binary string in chunks (avoids argument limits on large files)
+ * @internal
+ */
+function bytesToBinary(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    chunks.push(String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000))));
+  }
+  return chunks.join('');
+}
+
+/**
+ * Decode a certificate attribute; forge keeps UTF8String values as UTF-8 bytes
+ * @internal
+ */
+function decodeAttribute(forge: typeof import('node-forge'), value: string): string {
+  try {
+    return forge.util.decodeUtf8(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * PDF Generator Library - Stationery Handler
+ *
+ * Letterhead pages from another PDF drawn as vector backgrounds
+ */
+
+import type { StationeryOptions } from './types';
+
+/**
+ * Draw stationery pages under the content of finished PDF bytes
+ *
+ * The first page gets `firstPage` and every other page gets `followingPages`.
+ * Each stationery page is embedded once as a form XObject, scaled to fit the
+ * trimmed page and centered, and drawn as an artifact before the page's own content.
+ * Content placed inside the margins stays where it is.
+ *
+ * @throws Error when a selected page is not in the stationery PDF
+ */
+export async function applyStationery(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  stationery: StationeryOptions
+): Promise<Uint8Array> {
+  const lib = await import('pdf-lib');
+  const { PDFDocument, PDFArray } = lib;
+  const doc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const source = await PDFDocument.load(await readStationery(stationery.pdf), { updateMetadata: false });
+  const pageCount = source.getPageCount();
+
+  const firstPage = stationery.firstPage ?? 1;
+  const followingPages = stationery.followingPages ?? (pageCount > 1 ? 2 : firstPage);
+  const selected = followingPages === false ? [firstPage] : [firstPage, followingPages];
+
+  selected.forEach((page) => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new Error(`Stationery page ${page} is out of range; the stationery PDF has ${pageCount} pages`);
+    }
+  });
+
+  const [first, following] = await doc.embedPdf(source, selected.map((page) => page - 1));
+
+  doc.getPages().forEach((page, index) => {
+    const background = index === 0 ? first : following;
+    if (!background) return;
+
+    const { x, y, width, height } = page.getTrimBox();
+    const scale = Math.min(width / background.width, height / background.height);
+    const name = page.node.newXObject('Stationery', background.ref);
+
+    const stream = doc.context.contentStream([
+      lib.beginMarkedContent('Artifact'),
+      lib.pushGraphicsState(),
+      lib.concatTransformationMatrix(
+        scale,
+        0,
+        0,
+        scale,
+        x + (width - background.width * scale) / 2,
+        y + (height - background.height * scale) / 2
+      ),
+      lib.drawObject(name),
+      lib.popGraphicsState(),
+      lib.endMarkedContent(),
+    ]);
+
+    // Normalizing wraps the existing content in q/Q, so it starts from a clean state
+    page.node.normalize();
+    const contents = page.node.Contents();
+    if (contents instanceof PDFArray) {
+      contents.insert(0, doc.context.register(stream));
+    }
+  });
+
+  return doc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
+
+/**
+ * @internal
+ */
+async function readStationery(data: StationeryOptions['pdf']): Promise<Uint8Array | ArrayBuffer> {
+  return data instanceof Uint8Array || data instanceof ArrayBuffer ? data : data.arrayBuffer();
+}
@@ -0,0 +1,506 @@
+/**
+ * PDF Generator Library - Structure Handler
+ *
+ * Tagged PDF support: a structure tree built from the prepared DOM, marked
+ * content around the text layer and artifacts for page decoration
+ */
+
+import type jsPDF from 'jspdf';
+import type { PageSlicePlacement } from './types';
+
+/**
+ * Standard structure types written by this library
+ */
+export type StructureRole =
+  | 'Document'
+  | 'H1' | 'H2' | 'H3' | 'H4' | 'H5' | 'H6'
+  | 'P'
+  | 'L' | 'LI' | 'LBody'
+  | 'Table' | 'TR' | 'TH' | 'TD'
+  | 'Figure';
+
+/**
+ * A structure element and the marked content it owns
+ */
+export interface StructureNode {
+  /** Structure type */
+  role: StructureRole;
+  /** Alternate description (figures) */
+  alt?: string;
+  /** Header cell scope (TH) */
+  scope?: 'Row' | 'Column';
+  /** Figure box in CSS pixels, relative to the rendered element */
+  box?: { x: number; y: number; width: number; height: number };
+  /** Figure placement, filled in when its page is laid out (PDF points) */
+  placed?: { pageNumber: number; bbox: [number, number, number, number] };
+  /** Child elements and marked-content references, in reading order */
+  children: Array<StructureNode | MarkedContentReference>;
+}
+
+/**
+ * A marked-content sequence on a page
+ */
+export interface MarkedContentReference {
+  pageNumber: number;
+  mcid: number;
+}
+
+/**
+ * Structure tree of a document being generated
+ */
+export interface StructureTree {
+  /** Document root element */
+  root: StructureNode;
+  /** Natural language of the document (BCP 47), empty when unknown */
+  lang: string;
+  /** DOM elements that own content, mapped to their structure element */
+  owners: Map<Element, StructureNode>;
+  /** Figures, in document order */
+  figures: StructureNode[];
+  /** Per page, the structure element of each MCID (the page's parent tree entry) */
+  pages: Map<number, StructureNode[]>;
+}
+
+/**
+ * Artifact kinds for decorative content
+ */
+export type ArtifactKind = 'Layout' | 'Pagination' | 'Watermark';
+
+/**
+ * jsPDF internals used to write raw content and objects
+ * @internal
+ */
+interface JsPDFInternals {
+  write(...args: string[]): void;
+  newObjectDeferred(): number;
+  newObjectDeferredBegin(objectId: number, doOutput: boolean): number;
+  events: {
+    subscribe(topic: string, callback: (...args: any[]) => void): string;
+  };
+  scaleFactor: number;
+  pageSize: { getHeight(): number };
+}
+
+/** Tags whose content is never part of the structure */
+const SKIPPED_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD'];
+
+/** Tags that map directly to a structure type */
+const TAG_ROLES: Record<string, StructureRole> = {
+  H1: 'H1',
+  H2: 'H2',
+  H3: 'H3',
+  H4: 'H4',
+  H5: 'H5',
+  H6: 'H6',
+  P: 'P',
+  UL: 'L',
+  OL: 'L',
+  LI: 'LI',
+  TABLE: 'Table',
+  TR: 'TR',
+  TH: 'TH',
+  TD: 'TD',
+  IMG: 'Figure',
+};
+
+/** Structure types that group other elements and must not own text directly */
+const GROUPING_ROLES: StructureRole[] = ['Document', 'L', 'LI', 'Table', 'TR'];
+
+/**
+ * Build the structure tree of a prepared element
+ *
+ * Headings, paragraphs, lists, tables and images map to their standard
+ * structure types. Other elements that hold text directly become paragraphs.
+ * Images with an empty `alt`, `role="presentation"` or `aria-hidden` are
+ * decorative and left out; other images become figures described by `alt`,
+ * `aria-label` or `title`.
+ */
+export function extractStructureTree(element: HTMLElement, lang: string = ''): StructureTree {
+  const origin = element.getBoundingClientRect();
+  const root: StructureNode = { role: 'Document', children: [] };
+  const owners = new Map<Element, StructureNode>();
+  const figures: StructureNode[] = [];
+
+  const visit = (el: Element, parent: StructureNode): void => {
+    if (SKIPPED_TAGS.includes(el.tagName) || isHiddenFromStructure(el)) return;
+
+    const role = getStructureRole(el, parent);
+    let owner = parent;
+
+    if (role === 'Figure') {
+      if (isDecorativeImage(el)) return;
+
+      const rect = el.getBoundingClientRect();
+      const alt = getAlternateText(el);
+      const figure: StructureNode = {
+        role,
+        alt,
+        box: { x: rect.left - origin.left, y: rect.top - origin.top, width: rect.width, height: rect.height },
+        children: [],
+      };
+      parent.children.push(figure);
+      figures.push(figure);
+      owners.set(el, figure);
+      return;
+    }
+
+    if (role) {
+      owner = { role, children: [] };
+      if (role === 'TH') owner.scope = getHeaderScope(el);
+      parent.children.push(owner);
+
+      // List item content goes into the item's body
+      if (role === 'LI') {
+        const body: StructureNode = { role: 'LBody', children: [] };
+        owner.children.push(body);
+        owner = body;
+      }
+
+      owners.set(el, owner);
+    }
+
+    Array.from(el.children).forEach((child) => visit(child, owner));
+  };
+
+  owners.set(element, root);
+  Array.from(element.children).forEach((child) => visit(child, root));
+
+  const missingAlt = figures.filter((figure) => !figure.alt).length;
+  if (missingAlt > 0) {
+    console.warn(`${missingAlt} image(s) have no alt text; their figures will have no description`);
+  }
+
+  return { root, lang, owners, figures, pages: new Map() };
+}
+
+/**
+ * Resolve the natural language of an element (closest `lang` attribute)
+ */
+export function getDocumentLanguage(element: HTMLElement): string {
+  const tagged = element.closest('[lang]');
+  return (tagged?.getAttribute('lang') || document.documentElement.lang || '').trim();
+}
+
+/**
+ * Open a marked-content sequence for the structure element that owns `source`
+ *
+ * Content without an owner (hidden from assistive technology) is opened as an
+ * artifact. Close the sequence with `endMarkedContent`.
+ */
+export function beginMarkedContent(
+  pdf: jsPDF,
+  tree: StructureTree,
+  source: Element | undefined,
+  pageNumber: number
+): void {
+  const owner = source ? findOwner(tree, source) : null;
+
+  if (owner) {
+    getInternals(pdf).write(`/${owner.role} <</MCID ${addMarkedContent(tree, owner, pageNumber)}>> BDC`);
+  } else {
+    beginArtifact(pdf, 'Layout');
+  }
+}
+
+/**
+ * Open an artifact sequence for decorative content (page raster, headers,
+ * footers, page numbers, watermarks). Close it with `endMarkedContent`.
+ */
+export function beginArtifact(pdf: jsPDF, kind: ArtifactKind): void {
+  const properties = kind === 'Layout'
+    ? '<</Type /Layout>>'
+    : kind === 'Watermark'
+      ? '<</Type /Pagination /Subtype /Watermark>>'
+      : '<</Type /Pagination>>';
+
+  getInternals(pdf).write(`/Artifact ${properties} BDC`);
+}
+
+/**
+ * Close the innermost marked-content or artifact sequence
+ */
+export function endMarkedContent(pdf: jsPDF): void {
+  getInternals(pdf).write('EMC');
+}
+
+/**
+ * Mark the figures whose centre lies in the current page slice
+ *
+ * The raster already shows each image, so a figure's marked content is an
+ * unpainted rectangle over it; the figure's bounding box is recorded for the
+ * structure element.
+ */
+export function addFiguresToPage(
+  pdf: jsPDF,
+  tree: StructureTree,
+  placement: PageSlicePlacement,
+  pageNumber: number
+): void {
+  const { sliceTop, sliceHeight, offsetX, offsetY, mmPerPx } = placement;
+  const writer = getInternals(pdf);
+  const k = writer.scaleFactor;
+  const pageHeight = writer.pageSize.getHeight();
+
+  tree.figures.forEach((figure) => {
+    const box = figure.box;
+    if (!box || figure.placed) return;
+
+    const center = box.y + box.height / 2;
+    if (center < sliceTop || center >= sliceTop + sliceHeight) return;
+
+    const left = (offsetX + box.x * mmPerPx) * k;
+    const bottom = (pageHeight - offsetY - (box.y - sliceTop + box.height) * mmPerPx) * k;
+    const width = box.width * mmPerPx * k;
+    const height = box.height * mmPerPx * k;
+
+    figure.placed = {
+      pageNumber,
+      bbox: [left, bottom, left + width, bottom + height].map(round) as [number, number, number, number],
+    };
+
+    writer.write(`/Figure <</MCID ${addMarkedContent(tree, figure, pageNumber)}>> BDC`);
+    writer.write(`${round(left)} ${round(bottom)} ${round(width)} ${round(height)} re n`);
+    writer.write('EMC');
+  });
+}
+
+/**
+ * Write the structure tree, parent tree, page keys and catalog entries when the
+ * document is serialized
+ *
+ * Must be called once, after every page has been drawn.
+ */
+export function writeStructureTree(pdf: jsPDF, tree: StructureTree): void {
+  const writer = getInternals(pdf);
+  const pageObjects = new Map<number, number>();
+  let rootObject = 0;
+
+  writer.events.subscribe('putPage', (page: { objId: number; pageNumber: number }) => {
+    pageObjects.set(page.pageNumber, page.objId);
+    writer.write(`/StructParents ${page.pageNumber - 1}`);
+    writer.write('/Tabs /S');
+  });
+
+  writer.events.subscribe('postPutResources', () => {
+    const nodes: Array<{ node: StructureNode; parent: number }> = [];
+    const objectIds = new Map<StructureNode, number>();
+
+    rootObject = writer.newObjectDeferred();
+    const parentTreeObject = writer.newObjectDeferred();
+
+    const assign = (node: StructureNode, parent: number) => {
+      if (!hasContent(node)) return;
+      objectIds.set(node, writer.newObjectDeferred());
+      nodes.push({ node, parent });
+      node.children.forEach((child) => {
+        if (isStructureNode(child)) assign(child, objectIds.get(node)!);
+      });
+    };
+    assign(tree.root, rootObject);
+
+    const writeObject = (objectId: number, body: string) => {
+      writer.newObjectDeferredBegin(objectId, true);
+      writer.write(body);
+      writer.write('endobj');
+    };
+
+    nodes.forEach(({ node, parent }) => {
+      writeObject(objectIds.get(node)!, serializeStructureElement(node, parent, objectIds, pageObjects));
+    });
+
+    const pageCount = pdf.getNumberOfPages();
+    const nums: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const owners = tree.pages.get(pageNumber) || [];
+      nums.push(`${pageNumber - 1} [${owners.map((owner) => `${objectIds.get(owner)} 0 R`).join(' ')}]`);
+    }
+
+    const documentObject = objectIds.get(tree.root);
+    writeObject(
+      rootObject,
+      `<</Type /StructTreeRoot /K [${documentObject ? `${documentObject} 0 R` : ''}] ` +
+        `/ParentTree ${parentTreeObject} 0 R /ParentTreeNextKey ${pageCount}>>`
+    );
+    writeObject(parentTreeObject, `<</Nums [${nums.join(' ')}]>>`);
+  });
+
+  writer.events.subscribe('putCatalog', () => {
+    writer.write(`/StructTreeRoot ${rootObject} 0 R`);
+    writer.write('/MarkInfo <</Marked true>>');
+    writer.write('/ViewerPreferences <</DisplayDocTitle true>>');
+    if (tree.lang) {
+      writer.write(`/Lang ${toPDFTextString(tree.lang)}`);
+    }
+  });
+}
+
+/**
+ * Structure type of an element, or null when it only passes its content on
+ * @internal
+ */
+function getStructureRole(el: Element, parent: StructureNode): StructureRole | null {
+  const ariaRole = el.getAttribute('role');
+  if (ariaRole === 'img' && el.getAttribute('aria-label')) return 'Figure';
+  if (ariaRole === 'heading') {
+    const level = Math.min(Math.max(parseInt(el.getAttribute('aria-level') || '2', 10) || 2, 1), 6);
+    return `H${level}` as StructureRole;
+  }
+
+  const role = TAG_ROLES[el.tagName];
+  if (role) return role;
+
+  // Text placed straight into a grouping element needs a paragraph of its own
+  return GROUPING_ROLES.includes(parent.role) && hasOwnText(el) ? 'P' : null;
+}
+
+/**
+ * @internal
+ */
+function hasOwnText(el: Element): boolean {
+  return Array.from(el.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+  );
+}
+
+/**
+ * @internal
+ */
+function isHiddenFromStructure(el: Element): boolean {
+  return el.getAttribute('aria-hidden') === 'true' || window.getComputedStyle(el).display === 'none';
+}
+
+/**
+ * @internal
+ */
+function isDecorativeImage(el: Element): boolean {
+  return el.getAttribute('alt') === '' || el.getAttribute('role') === 'presentation';
+}
+
+/**
+ * @internal
+ */
+function getAlternateText(el: Element): string | undefined {
+  const text = el.getAttribute('alt') || el.getAttribute('aria-label') || el.getAttribute('title') || '';
+  return text.trim() || undefined;
+}
+
+/**
+ * Header cell scope from `scope`, falling back to the cell's position
+ * @internal
+ */
+function getHeaderScope(el: Element): 'Row' | 'Column' {
+  const scope = el.getAttribute('scope');
+  if (scope === 'row' || scope === 'rowgroup') return 'Row';
+  if (scope === 'col' || scope === 'colgroup') return 'Column';
+
+  const row = el.parentElement;
+  const allHeaders = !!row && Array.from(row.children).every((cell) => cell.tagName === 'TH');
+  return el.closest('thead') || allHeaders ? 'Column' : 'Row';
+}
+
+/**
+ * Closest structure element that owns an element's content
+ * @internal
+ */
+function findOwner(tree: StructureTree, source: Element): StructureNode | null {
+  let el: Element | null = source;
+
+  while (el) {
+    if (el.getAttribute('aria-hidden') === 'true') return null;
+    const owner = tree.owners.get(el);
+    if (owner) return owner;
+    el = el.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * Allocate the next MCID on a page for a structure element
+ * @internal
+ */
+function addMarkedContent(tree: StructureTree, owner: StructureNode, pageNumber: number): number {
+  const owners = tree.pages.get(pageNumber) || [];
+  tree.pages.set(pageNumber, owners);
+
+  const mcid = owners.length;
+  owners.push(owner);
+  owner.children.push({ pageNumber, mcid });
+  return mcid;
+}
+
+/**
+ * @internal
+ */
+function isStructureNode(child: StructureNode | MarkedContentReference): child is StructureNode {
+  return 'role' in child;
+}
+
+/**
+ * Whether any marked content was drawn for a structure element or its descendants
+ * @internal
+ */
+function hasContent(node: StructureNode): boolean {
+  return node.children.some((child) => !isStructureNode(child) || hasContent(child));
+}
+
+/**
+ * @internal
+ */
+function serializeStructureElement(
+  node: StructureNode,
+  parent: number,
+  objectIds: Map<StructureNode, number>,
+  pageObjects: Map<number, number>
+): string {
+  const firstContent = node.children.find((child): child is MarkedContentReference => !isStructureNode(child));
+  const page = firstContent ? pageObjects.get(firstContent.pageNumber) : undefined;
+
+  const kids = node.children
+    .map((child) => {
+      if (isStructureNode(child)) {
+        const objectId = objectIds.get(child);
+        return objectId ? `${objectId} 0 R` : '';
+      }
+      const childPage = pageObjects.get(child.pageNumber);
+      return childPage === page
+        ? String(child.mcid)
+        : `<</Type /MCR /Pg ${childPage} 0 R /MCID ${child.mcid}>>`;
+    })
+    .filter(Boolean);
+
+  const entries = [`/Type /StructElem /S /${node.role} /P ${parent} 0 R`];
+  if (page) entries.push(`/Pg ${page} 0 R`);
+  entries.push(`/K [${kids.join(' ')}]`);
+  if (node.alt) entries.push(`/Alt ${toPDFTextString(node.alt)}`);
+  if (node.scope) entries.push(`/A <</O /Table /Scope /${node.scope}>>`);
+  if (node.placed) entries.push(`/A <</O /Layout /BBox [${node.placed.bbox.join(' ')}]>>`);
+
+  return `<<${entries.join(' ')}>>`;
+}
+
+/**
+ * Encode a text string as UTF-16BE hex (keeps the output ASCII-only)
+ * @internal
+ */
+function toPDFTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * @internal
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * @internal
+ */
+function getInternals(pdf: jsPDF): JsPDFInternals {
+  return pdf.internal as unknown as JsPDFInternals;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import jsPDF from 'jspdf';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { addTextLayerToPage, registerTextLayerFont, type TextRun } from './text-layer';
+
+const placement = { sliceTop: 0, sliceHeight: 1000, offsetX: 10, offsetY: 10, mmPerPx: 0.26 };
+
+function run(text: string, y: number): TextRun {
+  return { text, x: 0, y, width: 200, height: 20, fontSize: 16 };
+}
+
+/**
+ * Text of each item pdf.js extracts from the first page
+ */
+async function extractText(pdf: jsPDF): Promise<string[]> {
+  const doc = await getDocument({ data: new Uint8Array(pdf.output('arraybuffer')), verbosity: 0 }).promise;
+  const content = await (await doc.getPage(1)).getTextContent();
+  return content.items.flatMap((item) => ('str' in item && item.str.trim() ? [item.str.trim()] : []));
+}
+
+describe('addTextLayerToPage', () => {
+  it('writes WinAnsi text that extracts unchanged', async () => {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const unencodable = addTextLayerToPage(pdf, [run('Straße “€ 5” – naïve', 0)], placement);
+
+    expect(unencodable).toEqual([]);
+    expect(await extractText(pdf)).toEqual(['Straße “€ 5” – naïve']);
+  });
+
+  it('leaves out and reports characters Helvetica cannot encode', async () => {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const runs = [run('Hello Привет', 0), run('日本語', 40), run('Plain', 80)];
+    const unencodable = addTextLayerToPage(pdf, runs, placement);
+
+    expect(unencodable.map((entry) => entry.text)).toEqual(['Hello Привет', '日本語']);
+    expect(await extractText(pdf)).toEqual(['Hello', 'Plain']);
+  });
+
+  it('keeps every script the registered font covers', async () => {
+    // Liberation Sans, as shipped with pdf.js
+    const font = readFileSync(
+      createRequire(import.meta.url).resolve('pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf')
+    );
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const fontName = registerTextLayerFont(pdf, font);
+
+    expect(registerTextLayerFont(pdf, font)).toBe(fontName);
+    expect(addTextLayerToPage(pdf, [run('Hello Привет', 0)], placement, undefined, fontName)).toEqual([]);
+    expect(await extractText(pdf)).toEqual(['Hello Привет']);
+  });
+});
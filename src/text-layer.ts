@@ -0,0 +1,219 @@
+/**
+ * PDF Generator Library - Text Layer
+ *
+ * Invisible, selectable text over rasterized page slices
+ */
+
+import type jsPDF from 'jspdf';
+import type { PageSlicePlacement } from './types';
+
+/**
+ * A single line of text measured in the prepared element
+ */
+export interface TextRun {
+  /** Text content of the line */
+  text: string;
+  /** Left edge in CSS pixels, relative to the rendered element */
+  x: number;
+  /** Top edge in CSS pixels, relative to the rendered element */
+  y: number;
+  /** Width in CSS pixels */
+  width: number;
+  /** Height in CSS pixels */
+  height: number;
+  /** Computed font size in CSS pixels */
+  fontSize: number;
+  /** Element that contains the text */
+  element?: HTMLElement;
+}
+
+/** Tags whose text never ends up on the rendered page */
+const SKIPPED_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA', 'SELECT', 'OPTION'];
+
+/** Vertical tolerance (px) for treating two words as the same line */
+const LINE_TOLERANCE = 2;
+
+/** Points per millimetre */
+const PT_PER_MM = 72 / 25.4;
+
+/** Family name `textLayerFont` is registered under */
+const TEXT_LAYER_FONT = 'TextLayerFont';
+
+/** Characters WinAnsi places in 0x80-0x9F, beyond Latin-1 */
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+/**
+ * Collect line-level text runs from every visible text node in an element
+ *
+ * Each word is measured with a Range so lines that wrap are split correctly,
+ * then consecutive words on the same line are merged into one run.
+ */
+export function extractTextRuns(element: HTMLElement): TextRun[] {
+  const origin = element.getBoundingClientRect();
+  const runs: TextRun[] = [];
+
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement;
+      if (!parent || SKIPPED_TAGS.includes(parent.tagName)) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      if (!node.textContent || !node.textContent.trim()) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    },
+  });
+
+  const range = document.createRange();
+  let node = walker.nextNode() as Text | null;
+
+  while (node) {
+    const parent = node.parentElement as HTMLElement;
+    const style = window.getComputedStyle(parent);
+
+    if (style.visibility !== 'hidden' && style.display !== 'none' && parseFloat(style.opacity) !== 0) {
+      const fontSize = parseFloat(style.fontSize) || 16;
+      const text = node.textContent || '';
+      const wordRegex = /\S+/g;
+      let current: TextRun | null = null;
+      let match: RegExpExecArray | null;
+
+      while ((match = wordRegex.exec(text)) !== null) {
+        range.setStart(node, match.index);
+        range.setEnd(node, match.index + match[0].length);
+
+        const rects = Array.from(range.getClientRects()).filter((r) => r.width > 0 && r.height > 0);
+        if (rects.length === 0) continue;
+
+        const first = rects[0];
+        const last = rects[rects.length - 1];
+        const word = {
+          x: first.left - origin.left,
+          y: first.top - origin.top,
+          right: last.right - origin.left,
+          height: first.height,
+        };
+
+        if (current && Math.abs(current.y - word.y) <= LINE_TOLERANCE && word.x >= current.x) {
+          current.text += ` ${match[0]}`;
+          current.width = word.right - current.x;
+          current.height = Math.max(current.height, word.height);
+        } else {
+          if (current) runs.push(current);
+          current = {
+            text: match[0],
+            x: word.x,
+            y: word.y,
+            width: word.right - word.x,
+            height: word.height,
+            fontSize,
+            element: parent,
+          };
+        }
+      }
+
+      if (current) runs.push(current);
+    }
+
+    node = walker.nextNode() as Text | null;
+  }
+
+  range.detach();
+  return runs;
+}
+
+/**
+ * Embed a TrueType font for the text layer and return its family name
+ *
+ * The font is written with Identity-H encoding and a ToUnicode map, so every
+ * script it covers stays searchable. Registering twice reuses the first copy.
+ */
+export function registerTextLayerFont(pdf: jsPDF, font: ArrayBuffer | Uint8Array): string {
+  if (!pdf.getFontList()[TEXT_LAYER_FONT]) {
+    const bytes = new Uint8Array(font);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    pdf.addFileToVFS(`${TEXT_LAYER_FONT}.ttf`, btoa(binary));
+    pdf.addFont(`${TEXT_LAYER_FONT}.ttf`, TEXT_LAYER_FONT, 'normal', 'Identity-H');
+  }
+  return TEXT_LAYER_FONT;
+}
+
+/**
+ * Write the runs that belong to one page slice as invisible text (render mode 3)
+ *
+ * A run belongs to the slice that contains its vertical centre, so a line cut
+ * by the slicer is only written once. `wrapRun` can surround each run's
+ * drawing, e.g. with marked content for tagged PDF.
+ *
+ * Without `fontName` (from {@link registerTextLayerFont}) the runs use
+ * Helvetica, which only encodes WinAnsi. Characters outside it are left out
+ * of the written text, and the runs that lost any are returned.
+ */
+export function addTextLayerToPage(
+  pdf: jsPDF,
+  runs: TextRun[],
+  placement: PageSlicePlacement,
+  wrapRun: (run: TextRun, draw: () => void) => void = (_run, draw) => draw(),
+  fontName?: string
+): TextRun[] {
+  const { sliceTop, sliceHeight, offsetX, offsetY, mmPerPx } = placement;
+  const sliceBottom = sliceTop + sliceHeight;
+
+  const pageRuns = runs.filter((run) => {
+    const center = run.y + run.height / 2;
+    return center >= sliceTop && center < sliceBottom;
+  });
+
+  const unencodable: TextRun[] = [];
+  if (pageRuns.length === 0) return unencodable;
+
+  const previousFontSize = pdf.getFontSize();
+  pdf.setFont(fontName || 'helvetica', 'normal');
+
+  pageRuns.forEach((run) => {
+    let text = run.text;
+    if (!fontName) {
+      text = Array.from(text).map((char) => (isWinAnsi(char) ? char : ' ')).join('');
+      if (text !== run.text) unencodable.push(run);
+      if (!text.trim()) return;
+    }
+
+    const fontSizePt = run.fontSize * mmPerPx * PT_PER_MM;
+    pdf.setFontSize(fontSizePt);
+
+    const naturalWidth = pdf.getTextWidth(text);
+    const targetWidth = run.width * mmPerPx;
+    const horizontalScale = naturalWidth > 0 ? targetWidth / naturalWidth : 1;
+
+    // Centre the glyph box on the measured line box
+    const lineHeightMm = run.height * mmPerPx;
+    const glyphHeightMm = run.fontSize * mmPerPx;
+    const x = offsetX + run.x * mmPerPx;
+    const y = offsetY + (run.y - sliceTop) * mmPerPx + (lineHeightMm - glyphHeightMm) / 2;
+
+    wrapRun(run, () => {
+      pdf.text(text, x, y, {
+        baseline: 'top',
+        renderingMode: 'invisible',
+        horizontalScale,
+      });
+    });
+  });
+
+  pdf.setFontSize(previousFontSize);
+  return unencodable;
+}
+
+/**
+ * Check whether Helvetica's WinAnsi encoding has a code for a character
+ * @internal
+ */
+function isWinAnsi(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char);
+}
@@ -0,0 +1,169 @@
+/**
+ * PDF Generator Library - Theme Handler
+ *
+ * Light output for dark-themed pages, to save toner
+ */
+
+import { getGrayLevel } from './image-handler';
+import { getEffectiveBackground } from './print-handler';
+import { parseCSSColor, convertColor, toRgbString } from './css-color';
+
+const DARK_SCHEME_QUERY = /\(\s*prefers-color-scheme\s*:\s*dark\s*\)/gi;
+const LIGHT_SCHEME_QUERY = /\(\s*prefers-color-scheme\s*:\s*light\s*\)/gi;
+
+/** Media conditions that always and never match, valid inside `not`, `and` and `or` */
+const ALWAYS = '(min-width: 0px)';
+const NEVER = '((max-width: 0px) and (min-width: 1px))';
+
+/** Backgrounds below this gray level count as dark */
+const DARK_BACKGROUND = 128;
+
+/** Colors with at least this OKLCH chroma are brand accents and keep their color */
+const ACCENT_CHROMA = 0.08;
+
+/**
+ * How far inverted backgrounds move away from white, per unit of original
+ * lightness: dark grays land on the near-whites of a light theme instead of
+ * mid grays that still cost toner
+ */
+const BACKGROUND_DEPTH = 0.25;
+
+/** Color properties remapped to the light palette */
+const THEMED_PROPERTIES = [
+  'color',
+  'background-color',
+  'border-top-color',
+  'border-right-color',
+  'border-bottom-color',
+  'border-left-color',
+  'outline-color',
+  'text-decoration-color',
+  'column-rule-color',
+];
+
+/** Elements that show images; they and their content keep their colors */
+const IMAGE_SELECTOR = 'img, picture, video, canvas, svg, iframe, object, embed';
+
+/**
+ * Make the document's stylesheets apply their light color scheme
+ *
+ * `prefers-color-scheme: dark` conditions in `@media` and `@import` rules and
+ * in `<link>`/`<style>` media never match, and `prefers-color-scheme: light`
+ * ones always do, whatever the system setting. The root element also gets
+ * `color-scheme: light`, which picks the light side of `light-dark()` and
+ * light form controls.
+ *
+ * @returns A function that restores the original media and color scheme
+ */
+export function forceLightColorScheme(doc: Document = document): () => void {
+  const restores: Array<() => void> = [];
+
+  const rewrite = (media: MediaList) => {
+    const original = media.mediaText;
+    const light = original.replace(DARK_SCHEME_QUERY, NEVER).replace(LIGHT_SCHEME_QUERY, ALWAYS);
+    if (light === original) return;
+
+    media.mediaText = light;
+    restores.push(() => {
+      media.mediaText = original;
+    });
+  };
+
+  const visitRules = (rules: CSSRuleList) => {
+    Array.from(rules).forEach((rule) => {
+      const { media, cssRules, styleSheet } = rule as CSSRule & {
+        media?: MediaList;
+        cssRules?: CSSRuleList;
+        styleSheet?: CSSStyleSheet | null;
+      };
+      if (media) rewrite(media);
+      if (cssRules) visitRules(cssRules);
+      if (styleSheet) visitSheet(styleSheet);
+    });
+  };
+
+  const visitSheet = (sheet: CSSStyleSheet) => {
+    rewrite(sheet.media);
+    try {
+      visitRules(sheet.cssRules);
+    } catch {
+      // Cross-origin stylesheet
+    }
+  };
+
+  [...Array.from(doc.styleSheets), ...(doc.adoptedStyleSheets || [])].forEach(visitSheet);
+
+  const root = doc.documentElement;
+  const scheme = root.style.getPropertyValue('color-scheme');
+  const priority = root.style.getPropertyPriority('color-scheme');
+  root.style.setProperty('color-scheme', 'light', 'important');
+  restores.push(() => {
+    if (scheme) root.style.setProperty('color-scheme', scheme, priority);
+    else root.style.removeProperty('color-scheme');
+  });
+
+  return () => {
+    restores.reverse().forEach((restore) => restore());
+  };
+}
+
+/**
+ * Whether an element sits on a dark background
+ */
+export function isDarkBackground(element: HTMLElement): boolean {
+  const [r, g, b] = getEffectiveBackground(element);
+  return getGrayLevel(r, g, b) < DARK_BACKGROUND;
+}
+
+/**
+ * Invert a dark-themed element to a light palette, in place
+ *
+ * Neutral colors of text, borders and outlines have their OKLCH lightness
+ * inverted, so light text turns dark; neutral backgrounds become near-white,
+ * darker ones whiter. Hue and chroma are kept. Saturated colors (brand
+ * accents) are left as they are, as are images, video, canvas, SVG and
+ * embedded frames.
+ *
+ * Works on elements of any document, such as the copy html2canvas renders.
+ *
+ * @param reference - Element whose background decides whether the theme is
+ * dark; for a clone rendered offscreen, the original in the page
+ * @returns Whether the element was dark and got inverted
+ */
+export function applyLightTheme(root: HTMLElement, reference: HTMLElement = root): boolean {
+  root.style.setProperty('color-scheme', 'light', 'important');
+  if (!isDarkBackground(reference)) return false;
+
+  const elements = [root, ...Array.from(root.querySelectorAll<HTMLElement>('*'))].filter(
+    (element) => !element.closest(IMAGE_SELECTOR)
+  );
+
+  // Read everything before writing: inherited colors must not be inverted twice
+  const view = root.ownerDocument.defaultView || window;
+  const updates: Array<[HTMLElement, string, string]> = [];
+  elements.forEach((element) => {
+    const style = view.getComputedStyle(element);
+    THEMED_PROPERTIES.forEach((property) => {
+      const light = toLightPalette(style.getPropertyValue(property), property === 'background-color');
+      if (light) updates.push([element, property, light]);
+    });
+  });
+
+  updates.forEach(([element, property, value]) => element.style.setProperty(property, value, 'important'));
+  return true;
+}
+
+/**
+ * The light palette counterpart of a computed color; null to keep it
+ * @internal
+ */
+function toLightPalette(value: string, background: boolean): string | null {
+  const color = value ? parseCSSColor(value) : null;
+  if (!color || color.alpha === 0) return null;
+
+  const [lightness, chroma, hue] = convertColor(color, 'oklch').coords;
+  if (chroma >= ACCENT_CHROMA) return null;
+
+  const inverted = background ? 1 - lightness * BACKGROUND_DEPTH : 1 - lightness;
+  return toRgbString({ space: 'oklch', coords: [inverted, chroma, hue], alpha: color.alpha });
+}
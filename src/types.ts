@@ -139,6 +139,26 @@ export interface FontOptions {
   useWebSafeFonts?: boolean;
 }
 
+/**
+ * A configured font face that could not be loaded
+ */
+export interface FontLoadFailure {
+  /** Font family name */
+  family: string;
+
+  /** Font weight that was requested */
+  weight: number;
+
+  /** Font style that was requested */
+  style: string;
+
+  /** Font source URL or path */
+  src: string;
+
+  /** Why loading failed */
+  reason: string;
+}
+
 /**
  * Table of contents entry
  */
@@ -274,6 +294,373 @@ export interface PDFSecurityOptions {
   encryptionStrength?: 128 | 256;
 }
 
+/**
+ * Visible signature placement
+ */
+export interface SignatureAppearance {
+  /** Page number (1-indexed, defaults to the last page) */
+  page?: number;
+
+  /** Left edge in mm from the left of the page */
+  x: number;
+
+  /** Top edge in mm from the top of the page */
+  y: number;
+
+  /** Width in mm */
+  width: number;
+
+  /** Height in mm */
+  height: number;
+
+  /** TrueType/OpenType font for the box text (requires `fontkit`); embedded as a subset */
+  font?: Uint8Array | ArrayBuffer;
+
+  /** Fontkit instance (e.g. `@pdf-lib/fontkit`) used to embed `font` */
+  fontkit?: Parameters<import('pdf-lib').PDFDocument['registerFontkit']>[0];
+}
+
+/**
+ * Digital signature configuration
+ */
+export interface PDFSignatureOptions {
+  /** Enable signing */
+  enabled?: boolean;
+
+  /** PKCS#12 (.p12/.pfx) bundle with the private key and certificate chain */
+  p12?: Uint8Array | ArrayBuffer;
+
+  /** Passphrase of the PKCS#12 bundle */
+  passphrase?: string;
+
+  /** PEM-encoded RSA private key (alternative to `p12`) */
+  privateKey?: string;
+
+  /** PEM-encoded signing certificate, optionally followed by its chain */
+  certificate?: string;
+
+  /** Reason for signing */
+  reason?: string;
+
+  /** Location of signing */
+  location?: string;
+
+  /** Signer contact information */
+  contactInfo?: string;
+
+  /** Signer name (defaults to the certificate's common name) */
+  name?: string;
+
+  /** Visible signature box (omit for an invisible signature) */
+  appearance?: SignatureAppearance;
+
+  /** Bytes reserved for the CMS signature */
+  signatureLength?: number;
+}
+
+/**
+ * Archival (PDF/A) conformance level
+ */
+export type PDFConformance = 'PDF/A-1b' | 'PDF/A-2b' | 'PDF/A-3b';
+
+/**
+ * A PDF/A rule the document breaks
+ */
+export interface PDFAViolation {
+  /** Short rule identifier (e.g. 'font-embedding') */
+  rule: string;
+
+  /** What is wrong and how to avoid it */
+  message: string;
+
+  /** Whether the violation was corrected automatically */
+  fixed: boolean;
+}
+
+/**
+ * Result of a PDF/A preflight check
+ */
+export interface PDFAPreflightReport {
+  /** Conformance level that was checked */
+  conformance: PDFConformance;
+
+  /** True when no unfixed violations remain */
+  compliant: boolean;
+
+  /** Violations found, including the ones that were fixed */
+  violations: PDFAViolation[];
+}
+
+/**
+ * Accessibility (tagged PDF) configuration
+ */
+export interface AccessibilityOptions {
+  /** Write a structure tree, marked content and artifacts */
+  enabled?: boolean;
+
+  /** Document language (BCP 47); defaults to the closest `lang` attribute */
+  lang?: string;
+}
+
+/**
+ * How an attached file relates to the document (`/AFRelationship`)
+ */
+export type AttachmentRelationship = 'Source' | 'Data' | 'Alternative' | 'Supplement' | 'Unspecified';
+
+/**
+ * A file embedded in the generated PDF
+ */
+export interface PDFAttachment {
+  /** File name shown in the viewer's attachment panel (must be unique) */
+  name: string;
+
+  /** File contents */
+  data: Uint8Array | ArrayBuffer | Blob;
+
+  /** MIME type (defaults to the Blob's type, then `application/octet-stream`) */
+  mimeType?: string;
+
+  /** Description shown in the attachment panel */
+  description?: string;
+
+  /** Relationship to the document (default: 'Unspecified') */
+  afRelationship?: AttachmentRelationship;
+
+  /** Creation date (default: now) */
+  creationDate?: Date;
+
+  /** Modification date (default: the creation date) */
+  modificationDate?: Date;
+}
+
+/**
+ * Color treatment of the output
+ * - 'color': colors as rendered
+ * - 'grayscale': gray levels only
+ * - 'highContrast': darker grays, with near-white text and borders turned black
+ */
+export type ColorMode = 'color' | 'grayscale' | 'highContrast';
+
+/**
+ * Theme of the output
+ * - 'original': colors as the page shows them
+ * - 'auto-light': light variants of color-scheme aware styles, and dark
+ *   backgrounds inverted to a light palette
+ */
+export type PDFTheme = 'original' | 'auto-light';
+
+/**
+ * Printer's marks drawn in the slug area around each page
+ */
+export interface PrintMarksOptions {
+  /** Crop marks at the trim corners (default: true) */
+  cropMarks?: boolean;
+
+  /** Registration targets centered on each side (default: false) */
+  registrationMarks?: boolean;
+
+  /** CMYK color bars along the bottom edge (default: false) */
+  colorBars?: boolean;
+}
+
+/**
+ * Layout of several pages on each printed sheet
+ */
+export interface ImpositionOptions {
+  /**
+   * - 'n-up': `pagesPerSheet` pages per sheet, in reading order (default)
+   * - 'booklet': two pages per sheet side in saddle-stitch order, padded to a multiple of 4
+   */
+  mode?: 'n-up' | 'booklet';
+
+  /** Pages per sheet in 'n-up' mode (default: 2) */
+  pagesPerSheet?: 2 | 4 | 6 | 9;
+
+  /** Sheet paper format (default: 'a4') */
+  sheetFormat?: 'a4' | 'letter' | 'a3' | 'legal';
+
+  /** Sheet orientation (default: whichever fits the pages larger) */
+  sheetOrientation?: 'portrait' | 'landscape';
+
+  /** Space between pages in mm (default: 0) */
+  gutter?: number;
+
+  /** Sheet margin in mm (default: 0) */
+  margin?: number;
+
+  /** Draw a hairline frame around each page (default: false) */
+  border?: boolean;
+}
+
+/**
+ * Letterhead placed as a vector background under the generated pages
+ */
+export interface StationeryOptions {
+  /** The stationery PDF */
+  pdf: Blob | ArrayBuffer | Uint8Array;
+
+  /** Page of `pdf` under the first generated page (1-indexed, default: 1) */
+  firstPage?: number;
+
+  /**
+   * Page of `pdf` under every following page; `false` leaves them plain
+   * (default: 2 when `pdf` has a second page, otherwise `firstPage`)
+   */
+  followingPages?: number | false;
+}
+
+/**
+ * Factur-X / ZUGFeRD profile
+ */
+export type EInvoiceProfile = 'MINIMUM' | 'BASIC' | 'EN16931';
+
+/**
+ * UNTDID 5305 VAT category code (S standard, Z zero rated, E exempt, AE reverse
+ * charge, K intra-community, G export, O not subject to VAT, L/M Canary Islands
+ * and Ceuta/Melilla)
+ */
+export type EInvoiceVATCategory = 'S' | 'Z' | 'E' | 'AE' | 'K' | 'G' | 'O' | 'L' | 'M';
+
+/**
+ * Seller or buyer of an e-invoice
+ */
+export interface EInvoiceParty {
+  /** Registered name (BT-27, BT-44) */
+  name: string;
+
+  /** VAT identifier including the country prefix, e.g. 'DE123456789' (BT-31, BT-48) */
+  vatId?: string;
+
+  /** Local tax registration number (BT-32) */
+  taxNumber?: string;
+
+  /** Legal registration identifier, e.g. SIRET (BT-30, BT-47) */
+  legalId?: string;
+
+  /** Postal address (required for BASIC and EN16931) */
+  address?: {
+    line1?: string;
+    line2?: string;
+    postcode?: string;
+    city?: string;
+    /** ISO 3166-1 alpha-2 code */
+    countryCode: string;
+  };
+}
+
+/**
+ * Invoice line (BASIC and EN16931)
+ */
+export interface EInvoiceLine {
+  /** Line identifier (default: position, starting at 1) */
+  id?: string;
+
+  /** Item name (BT-153) */
+  name: string;
+
+  /** Item description (BT-154, EN16931 only) */
+  description?: string;
+
+  /** Invoiced quantity (BT-129) */
+  quantity: number;
+
+  /** UN/ECE Recommendation 20 unit code (default: 'C62', one) */
+  unitCode?: string;
+
+  /** Net price per unit (BT-146) */
+  unitPrice: number;
+
+  /** VAT category (default: 'S') */
+  vatCategory?: EInvoiceVATCategory;
+
+  /** VAT rate in percent (BT-152) */
+  vatRate: number;
+}
+
+/**
+ * Structured invoice data for the embedded Factur-X XML
+ *
+ * Dates are `Date` objects (local calendar day) or 'YYYY-MM-DD' strings.
+ */
+export interface EInvoiceData {
+  /** Invoice number (BT-1) */
+  number: string;
+
+  /** Issue date (BT-2) */
+  issueDate: Date | string;
+
+  /** UNTDID 1001 document type (default: '380', commercial invoice; '381' is a credit note) */
+  typeCode?: string;
+
+  /** ISO 4217 currency code (BT-5) */
+  currency: string;
+
+  seller: EInvoiceParty;
+
+  buyer: EInvoiceParty;
+
+  /** Buyer reference, e.g. the German Leitweg-ID (BT-10) */
+  buyerReference?: string;
+
+  /** Purchase order reference (BT-13) */
+  orderReference?: string;
+
+  /** Delivery date (BT-72) */
+  deliveryDate?: Date | string;
+
+  /** Payment due date (BT-9) */
+  dueDate?: Date | string;
+
+  /** Payment terms text (BT-20) */
+  paymentTerms?: string;
+
+  /** Credit transfer details */
+  payment?: {
+    /** UNTDID 4461 payment means code (default: '58', SEPA credit transfer) */
+    meansCode?: string;
+    iban?: string;
+    bic?: string;
+    accountName?: string;
+  };
+
+  /** Free-text notes (BT-22) */
+  notes?: string[];
+
+  /** Invoice lines; totals and the VAT breakdown are calculated from them */
+  lines: EInvoiceLine[];
+
+  /** Reason for exemption, required for categories E, AE, K, G and O (BT-120) */
+  vatExemptionReason?: string;
+
+  /** Amount already paid (BT-113) */
+  prepaidAmount?: number;
+}
+
+/**
+ * E-invoice (Factur-X / ZUGFeRD) configuration
+ */
+export interface EInvoiceOptions {
+  /** Profile the XML is generated and validated for */
+  profile: EInvoiceProfile;
+
+  /** Invoice data */
+  invoice: EInvoiceData;
+}
+
+/**
+ * A business rule the invoice data breaks
+ */
+export interface EInvoiceValidationIssue {
+  /** EN 16931 business rule or cardinality identifier (e.g. 'BR-16') */
+  rule: string;
+
+  /** Path of the offending value (e.g. 'lines[2].vatRate') */
+  path: string;
+
+  /** What is wrong */
+  message: string;
+}
+
 /**
  * Async processing configuration
  */
@@ -360,6 +747,12 @@ export interface PDFGeneratorOptions {
   /** Page margins in mm [top, right, bottom, left] */
   margins?: [number, number, number, number];
 
+  /** Bleed in mm around the trimmed page for print production (default: 0) */
+  bleed?: number;
+
+  /** Printer's marks drawn outside the bleed; `true` draws crop marks only */
+  printMarks?: boolean | PrintMarksOptions;
+
   /** Enable compression */
   compress?: boolean;
 
@@ -369,6 +762,20 @@ export interface PDFGeneratorOptions {
   /** JPEG quality (0-1, default: 0.85) */
   imageQuality?: number;
 
+  /** Color treatment for black-and-white printing (default: 'color') */
+  colorMode?: ColorMode;
+
+  /** Light output for dark-themed pages (default: 'original') */
+  theme?: PDFTheme;
+
+  /**
+   * Rasterization mode
+   * - 'full': capture the whole content height in one canvas (default)
+   * - 'tiled': render one page-height tile at a time to stay within browser
+   *   canvas size limits on long documents
+   */
+  renderMode?: 'full' | 'tiled';
+
   /** Custom page header function */
   header?: (pageNumber: number, totalPages: number) => HTMLElement | null;
 
@@ -408,6 +815,14 @@ export interface PDFGeneratorOptions {
   /** Respect CSS page-break properties */
   respectCSSPageBreaks?: boolean;
 
+  /**
+   * Pagination mode
+   * - 'slice': cut the rendered content every page height (default)
+   * - 'smart': cut at safe positions computed from the DOM, honoring
+   *   break-before/after and break-inside: avoid (short pages keep whitespace)
+   */
+  paginationMode?: 'slice' | 'smart';
+
   /** Callback for progress updates (0-100) */
   onProgress?: (progress: number) => void;
 
@@ -447,20 +862,74 @@ export interface PDFGeneratorOptions {
   /** PDF security/encryption configuration */
   securityOptions?: PDFSecurityOptions;
 
+  /** Digital signature configuration */
+  signatureOptions?: PDFSignatureOptions;
+
+  /** Archival conformance level (PDF/A) */
+  conformance?: PDFConformance;
+
+  /** Tagged PDF (accessibility structure) configuration */
+  accessibilityOptions?: AccessibilityOptions;
+
+  /** Files embedded in the PDF (e.g. the source data it was rendered from) */
+  attachments?: PDFAttachment[];
+
+  /** Hybrid e-invoice (Factur-X / ZUGFeRD) output; implies PDF/A-3b */
+  eInvoice?: EInvoiceOptions;
+
+  /** Letterhead PDF drawn under each generated page; content keeps to `margins` */
+  stationery?: StationeryOptions;
+
+  /** PDFs whose pages are placed in front of the generated pages (e.g. a cover) */
+  prependPDFs?: Array<Blob | ArrayBuffer | Uint8Array>;
+
+  /** PDFs whose pages are placed behind the generated pages (e.g. terms and conditions) */
+  appendPDFs?: Array<Blob | ArrayBuffer | Uint8Array>;
+
+  /** Whether page numbers, header/footer totals and `pageCount` include the prepended and appended pages */
+  insertedPageNumbering?: 'count' | 'skip';
+
+  /** Lay the finished pages out n-up or as a booklet for printing */
+  imposition?: ImpositionOptions;
+
   /** Async processing configuration */
   asyncOptions?: AsyncProcessingOptions;
 
   /** Preview options */
   previewOptions?: PreviewOptions;
+
+  /** Add an invisible, selectable text layer over rasterized pages */
+  textLayer?: boolean;
+
+  /** TrueType font embedded for the text layer, so text outside WinAnsi stays searchable */
+  textLayerFont?: ArrayBuffer | Uint8Array;
+
+  /** Turn `<a href>` anchors into clickable link annotations (`#id` links jump inside the PDF) */
+  enableLinks?: boolean;
+
+  /** Turn `<input>`, `<select>` and `<textarea>` controls into fillable AcroForm fields */
+  formFields?: boolean;
 }
 
 export interface PDFPageConfig {
-  /** Page width in mm */
+  /** Page width in mm (the trimmed size) */
   width: number;
 
-  /** Page height in mm */
+  /** Page height in mm (the trimmed size) */
   height: number;
 
+  /** Bleed in mm around the trimmed page */
+  bleed: number;
+
+  /** Distance in mm from the trim edge to the MediaBox edge (bleed plus room for printer's marks) */
+  mediaOffset: number;
+
+  /** MediaBox width in mm, including bleed and marks */
+  mediaWidth: number;
+
+  /** MediaBox height in mm, including bleed and marks */
+  mediaHeight: number;
+
   /** Usable page width (excluding margins) in mm */
   usableWidth: number;
 
@@ -474,6 +943,26 @@ export interface PDFPageConfig {
   heightPx: number;
 }
 
+/**
+ * Placement of one page slice of the rendered element on a PDF page
+ */
+export interface PageSlicePlacement {
+  /** Slice top in CSS pixels, relative to the rendered element */
+  sliceTop: number;
+
+  /** Slice height in CSS pixels */
+  sliceHeight: number;
+
+  /** Left offset of the slice on the PDF page in mm */
+  offsetX: number;
+
+  /** Top offset of the slice on the PDF page in mm */
+  offsetY: number;
+
+  /** Millimetres per CSS pixel */
+  mmPerPx: number;
+}
+
 export interface PDFGenerationResult {
   /** Generated PDF blob */
   blob: Blob;
@@ -486,6 +975,15 @@ export interface PDFGenerationResult {
 
   /** Generation time in milliseconds */
   generationTime: number;
+
+  /** Custom fonts from `fontOptions` that failed to load (fallbacks were used) */
+  fontFailures?: FontLoadFailure[];
+
+  /** PDF/A preflight report (when `conformance` is set) */
+  preflight?: PDFAPreflightReport;
+
+  /** Text layer lines with characters Helvetica cannot encode (written without them; set `textLayerFont`) */
+  textLayerUnencodable?: string[];
 }
 
 export interface PDFRenderContext {
@@ -560,4 +1058,6 @@ export interface BatchPDFGenerationResult {
     /** Scale factor applied to fit target pages */
     scaleFactor: number;
   }>;
+  /** PDF/A preflight report (when `conformance` is set and items start on new pages) */
+  preflight?: PDFAPreflightReport;
 }
@@ -18,9 +18,16 @@ import type {
   TOCEntry,
   BookmarkEntry,
   PDFSecurityOptions,
+  PDFSignatureOptions,
+  PDFConformance,
+  AccessibilityOptions,
+  EInvoiceOptions,
+  StationeryOptions,
+  ImpositionOptions,
   AsyncProcessingOptions,
   PreviewOptions,
 } from './types';
+import { convertModernColorsInCSS, hasModernColor, resolveCustomPropertyColors } from './css-color';
 
 /** Standard paper formats in mm */
 export const PAPER_FORMATS = {
@@ -30,14 +37,30 @@ export const PAPER_FORMATS = {
   legal: { width: 215.9, height: 355.6 },
 } as const;
 
+/** Length of crop marks in mm */
+export const PRINT_MARK_LENGTH = 5;
+
+/**
+ * Distance in mm from the trim edge to where crop marks start
+ * (clear of the bleed, and at least 3mm)
+ */
+export function getPrintMarkOffset(bleed: number): number {
+  return Math.max(bleed, 3);
+}
+
 /** Default options for PDF generation */
 export const DEFAULT_OPTIONS: Required<PDFGeneratorOptions> = {
   orientation: 'portrait',
   format: 'a4',
   margins: [10, 10, 10, 10],
+  bleed: 0,
+  printMarks: false,
   compress: true,
   scale: 2,
   imageQuality: 0.85,
+  colorMode: 'color',
+  theme: 'original',
+  renderMode: 'full',
   header: () => null,
   footer: () => null,
   showPageNumbers: false,
@@ -51,6 +74,7 @@ export const DEFAULT_OPTIONS: Required<PDFGeneratorOptions> = {
   avoidTableRowSplit: true,
   preventOrphanedHeadings: true,
   respectCSSPageBreaks: true,
+  paginationMode: 'slice',
   onProgress: () => {},
   onComplete: () => {},
   onError: () => {},
@@ -64,8 +88,22 @@ export const DEFAULT_OPTIONS: Required<PDFGeneratorOptions> = {
   tocOptions: undefined as unknown as TOCOptions,
   bookmarkOptions: undefined as unknown as BookmarkOptions,
   securityOptions: undefined as unknown as PDFSecurityOptions,
+  signatureOptions: undefined as unknown as PDFSignatureOptions,
+  conformance: undefined as unknown as PDFConformance,
+  accessibilityOptions: undefined as unknown as AccessibilityOptions,
+  attachments: [],
+  eInvoice: undefined as unknown as EInvoiceOptions,
+  stationery: undefined as unknown as StationeryOptions,
+  prependPDFs: [],
+  appendPDFs: [],
+  insertedPageNumbering: 'count',
+  imposition: undefined as unknown as ImpositionOptions,
   asyncOptions: undefined as unknown as AsyncProcessingOptions,
   previewOptions: undefined as unknown as PreviewOptions,
+  textLayer: false,
+  textLayerFont: undefined as unknown as ArrayBuffer,
+  enableLinks: true,
+  formFields: false,
 };
 
 /**
@@ -83,6 +121,10 @@ export function calculatePageConfig(
   const usableWidth = width - marginLeft - marginRight;
   const usableHeight = height - marginTop - marginBottom;
 
+  // The MediaBox grows by the bleed, plus a slug for printer's marks
+  const bleed = Math.max(0, options.bleed || 0);
+  const mediaOffset = options.printMarks ? getPrintMarkOffset(bleed) + PRINT_MARK_LENGTH + 2 : bleed;
+
   // Convert mm to pixels (96 DPI: 1mm = 3.7795px)
   const MM_TO_PX = 3.7795;
   const widthPx = usableWidth * MM_TO_PX;
@@ -91,6 +133,10 @@ export function calculatePageConfig(
   return {
     width,
     height,
+    bleed,
+    mediaOffset,
+    mediaWidth: width + 2 * mediaOffset,
+    mediaHeight: height + 2 * mediaOffset,
     usableWidth,
     usableHeight,
     widthPx,
@@ -267,6 +313,20 @@ export function sanitizeFilename(name: string, extension: string): string {
   return sanitized ? `${sanitized}.${extension}` : `document.${extension}`;
 }
 
+/**
+ * Trigger a browser download of a blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 /**
  * Convert HTML string to HTMLElement
  * Supports full HTML documents or HTML fragments
@@ -541,26 +601,30 @@ export function oklchToRgb(oklchString: string): string | null {
  * Convert all OKLCH colors in CSS text to RGB
  * Handles both inline styles and CSS rules
  *
+ * Also converts the other CSS Color 4/5 syntax: `lab()`, `lch()`,
+ * `oklab()`, `hwb()`, `color()`, `color-mix()` and relative colors,
+ * gamut mapped to sRGB (see `convertModernColorsInCSS`).
+ *
  * @param css - CSS text containing OKLCH colors
  * @returns CSS text with OKLCH colors converted to RGB
  */
 export function convertOklchToRgbInCSS(css: string): string {
-  // Match all OKLCH color functions
-  const oklchRegex = /oklch\([^)]+\)/gi;
-
-  return css.replace(oklchRegex, (match) => {
-    const rgb = oklchToRgb(match);
-    return rgb || match; // Return original if conversion fails
-  });
+  return convertModernColorsInCSS(css);
 }
 
 /**
  * Convert OKLCH colors in element's inline styles and computed styles
  * Modifies the element in place
  *
+ * Custom properties are resolved too, so `color: var(--brand)` converts when
+ * `--brand` holds an OKLCH color.
+ *
  * @param element - HTML element to process
  */
 export function convertOklchInElement(element: HTMLElement): void {
+  // Resolve variables first, so computed colors below read their sRGB values
+  resolveCustomPropertyColors(element);
+
   // Process inline styles on root element
   if (element.style.cssText) {
     element.style.cssText = convertOklchToRgbInCSS(element.style.cssText);
@@ -608,7 +672,7 @@ function _applyOklchConversionFromComputed(element: HTMLElement, computedStyle:
 
   colorProperties.forEach((prop) => {
     const value = computedStyle.getPropertyValue(prop);
-    if (value && value.includes('oklch')) {
+    if (value && hasModernColor(value)) {
       const converted = convertOklchToRgbInCSS(value);
       // Apply as inline style to override computed style
       element.style.setProperty(prop, converted, 'important');
@@ -617,14 +681,14 @@ function _applyOklchConversionFromComputed(element: HTMLElement, computedStyle:
 
   // Handle background shorthand which might contain OKLCH
   const background = computedStyle.getPropertyValue('background');
-  if (background && background.includes('oklch')) {
+  if (background && hasModernColor(background)) {
     const converted = convertOklchToRgbInCSS(background);
     element.style.setProperty('background', converted, 'important');
   }
 
   // Handle border shorthand
   const border = computedStyle.getPropertyValue('border');
-  if (border && border.includes('oklch')) {
+  if (border && hasModernColor(border)) {
     const converted = convertOklchToRgbInCSS(border);
     element.style.setProperty('border', converted, 'important');
   }
@@ -666,7 +730,7 @@ export function extractAndConvertOklchFromStylesheets(): string {
         const cssText = rule.cssText;
 
         // Check if rule contains OKLCH
-        if (cssText && cssText.includes('oklch')) {
+        if (cssText && hasModernColor(cssText)) {
           // Convert OKLCH to RGB in this rule
           const converted = convertOklchToRgbInCSS(cssText);
           cssRules.push(converted);
@@ -876,6 +940,18 @@ export function buildTOCHierarchy(
   return root;
 }
 
+/**
+ * Escape text for safe insertion into HTML
+ */
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Generate TOC HTML from entries
  */
@@ -885,20 +961,31 @@ export function generateTOCHTML(
     includePageNumbers?: boolean;
     indentPerLevel?: number;
     title?: string;
+    enableLinks?: boolean;
   } = {}
 ): string {
-  const { includePageNumbers = true, indentPerLevel = 10, title = 'Table of Contents' } = options;
+  const {
+    includePageNumbers = true,
+    indentPerLevel = 10,
+    title = 'Table of Contents',
+    enableLinks = false,
+  } = options;
 
   let html = `<div class="pdf-toc">`;
   if (title) {
-    html += `<h1 class="pdf-toc-title">${title}</h1>`;
+    html += `<h1 class="pdf-toc-title">${escapeHTML(title)}</h1>`;
   }
   html += `<div class="pdf-toc-entries">`;
 
   const renderEntry = (entry: TOCEntry, depth: number = 0): string => {
     const indent = depth * indentPerLevel;
+    const entryTitle = escapeHTML(entry.title);
     let entryHtml = `<div class="pdf-toc-entry pdf-toc-level-${entry.level}" style="margin-left: ${indent}mm;">`;
-    entryHtml += `<span class="pdf-toc-entry-title">${entry.title}</span>`;
+    if (enableLinks && entry.id) {
+      entryHtml += `<a class="pdf-toc-entry-title" href="#${escapeHTML(entry.id)}">${entryTitle}</a>`;
+    } else {
+      entryHtml += `<span class="pdf-toc-entry-title">${entryTitle}</span>`;
+    }
     if (includePageNumbers) {
       entryHtml += `<span class="pdf-toc-entry-page">${entry.page}</span>`;
     }
@@ -947,6 +1034,8 @@ export function generateTOCCSS(): string {
     }
     .pdf-toc-entry-title {
       flex: 1;
+      color: inherit;
+      text-decoration: none;
     }
     .pdf-toc-entry-page {
       margin-left: 10px;